@@ -0,0 +1,139 @@
+import fs from 'fs';
+import { dataPath } from './persist.js';
+
+// Append-only JSONL record of every tools/call, rotated by size
+
+const AUDIT_FILE = dataPath('audit', 'audit.jsonl');
+const AUDIT_MAX_BYTES = parseInt(process.env.AUDIT_MAX_BYTES || '', 10) || 10 * 1024 * 1024;
+const AUDIT_MAX_FILES = parseInt(process.env.AUDIT_MAX_FILES || '', 10) || 5; // Rotated files kept besides the live one
+
+// Long argument values and output are cut to this many characters
+const MAX_FIELD_CHARS = 2000;
+
+export interface AuditEntry {
+  timestamp: string;
+  user: string;
+  clientId: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  cwd?: string; // Working directory, for tools that take one
+  isError: boolean;
+  exitCode?: number;
+  durationMs: number;
+  output: string;
+}
+
+export interface AuditQuery {
+  query?: string; // Case-insensitive text searched in arguments and output
+  tool?: string;
+  directory?: string; // Substring of the working directory, e.g. a repo name
+  since?: string; // Date or timestamp
+  until?: string;
+  limit?: number;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_FIELD_CHARS ? `${text.substring(0, MAX_FIELD_CHARS)}... (truncated)` : text;
+}
+
+// Arguments that can carry secrets: stdin and job input are replaced, and only env's names are kept
+const REDACTED_ARGUMENTS = new Set(['stdin', 'input']);
+
+function redactArgument(key: string, value: unknown): unknown {
+  if (REDACTED_ARGUMENTS.has(key)) return '***';
+  if (key === 'env' && value && typeof value === 'object') return Object.keys(value);
+  return typeof value === 'string' ? truncate(value) : value;
+}
+
+function redactArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, redactArgument(key, value)]));
+}
+
+// audit.jsonl -> audit.jsonl.1 -> ... -> audit.jsonl.N, dropping the oldest
+function rotate(): void {
+  fs.rmSync(`${AUDIT_FILE}.${AUDIT_MAX_FILES}`, { force: true });
+  for (let index = AUDIT_MAX_FILES - 1; index >= 1; index--) {
+    if (fs.existsSync(`${AUDIT_FILE}.${index}`)) fs.renameSync(`${AUDIT_FILE}.${index}`, `${AUDIT_FILE}.${index + 1}`);
+  }
+  fs.renameSync(AUDIT_FILE, `${AUDIT_FILE}.1`);
+}
+
+/**
+ * Append one tool call to the audit log
+ */
+export function recordToolCall(entry: Omit<AuditEntry, 'timestamp'>): void {
+  const line = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    ...entry,
+    arguments: redactArguments(entry.arguments),
+    output: truncate(entry.output),
+  });
+
+  try {
+    if (fs.existsSync(AUDIT_FILE) && fs.statSync(AUDIT_FILE).size + line.length > AUDIT_MAX_BYTES) {
+      rotate();
+    }
+    fs.appendFileSync(AUDIT_FILE, `${line}\n`, { mode: 0o600 });
+  } catch (error) {
+    console.error(`Failed to write audit log: ${error}`);
+  }
+}
+
+function parseTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Search a user's audit entries, newest first
+ */
+export function searchAudit(user: string, query: AuditQuery = {}): { entries: AuditEntry[]; more: boolean } {
+  const limit = query.limit || 20;
+  const since = parseTime(query.since);
+  const until = parseTime(query.until);
+  const text = query.query?.toLowerCase();
+  const directory = query.directory?.toLowerCase();
+
+  const matches = (entry: AuditEntry): boolean => {
+    if (entry.user !== user) return false;
+    // Earlier searches echo old entries, so they only show up when asked for by name
+    if (query.tool ? entry.tool !== query.tool : entry.tool === 'audit_search') return false;
+    const time = Date.parse(entry.timestamp);
+    if (since !== undefined && time < since) return false;
+    if (until !== undefined && time > until) return false;
+    if (directory && !entry.cwd?.toLowerCase().includes(directory)) return false;
+    if (text && !`${JSON.stringify(entry.arguments)}\n${entry.output}`.toLowerCase().includes(text)) return false;
+    return true;
+  };
+
+  const entries: AuditEntry[] = [];
+  // Newest file first, newest line first
+  const files = [AUDIT_FILE, ...Array.from({ length: AUDIT_MAX_FILES }, (_, index) => `${AUDIT_FILE}.${index + 1}`)];
+  for (const file of files) {
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(file, 'utf8').split('\n').filter(Boolean).reverse();
+    } catch {
+      continue;
+    }
+
+    for (const line of lines) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (since !== undefined && Date.parse(entry.timestamp) < since) {
+        // Everything further back is older still
+        return { entries, more: false };
+      }
+      if (!matches(entry)) continue;
+      if (entries.length === limit) return { entries, more: true };
+      entries.push(entry);
+    }
+  }
+
+  return { entries, more: false };
+}
@@ -1,10 +1,24 @@
-import { executeCommand } from './execute.js';
+import fs from 'fs';
+import path from 'path';
+import { dataPath, readJsonFile, writeJsonFile, readFileTail, readNewLines } from './persist.js';
+import { TaskEvent, TaskProgress, parseStreamJsonLine, applyTaskEvent } from './stream-json.js';
+import { decodeCursor, encodeCursor } from './cursors.js';
+import { runTmux } from './tmux.js';
+import { TaskWorktree, createWorktree, summarizeWorktree, mergeWorktree, removeWorktree } from './worktree.js';
 
 // Claude Code binary path
 const CLAUDE_BINARY = '/home/exedev/.local/bin/claude';
 
+// Concurrency limits for running Claude processes
+const MAX_CONCURRENT_TASKS = parseInt(process.env.CLAUDE_MAX_CONCURRENT || '', 10) || 2;
+const MAX_TASKS_PER_DIRECTORY = parseInt(process.env.CLAUDE_MAX_PER_DIRECTORY || '', 10) || 1;
+const QUEUE_POLL_MS = 5000;
+
+// Upper bound for a single wait, by wait_for_claude_code or a start or continue that waits for completion
+const MAX_WAIT_SECONDS = 600;
+
 // Task states
-export type TaskStatus = 'running' | 'completed' | 'failed' | 'stopped';
+export type TaskStatus = 'queued' | 'running' | 'completed' | 'failed' | 'stopped';
 
 export interface ClaudeCodeTask {
   taskId: string;
@@ -15,128 +29,707 @@ export interface ClaudeCodeTask {
   endTime?: number;
   exitCode?: number;
   tmuxSession: string;
+  startedBy: string; // Username that started the task
+  events?: TaskEvent[]; // Most recent events parsed from the stream-json transcript
+  progress?: TaskProgress;
+  logOffset?: number; // Bytes of the transcript already parsed into events
+  parentTaskId?: string; // Task this one continues (--resume)
+  rootTaskId?: string; // First task of the conversation thread, when this is a continuation
+  worktree?: TaskWorktree; // Set when the task runs isolated in its own git worktree
+  priority?: number; // Higher runs first when queued
+  queuedAt?: number;
+  resumeSessionId?: string; // Claude session to --resume when launched
+}
+
+export interface StartOptions {
+  waitForCompletion?: boolean;
+  timeoutSeconds?: number;
+  isolated?: boolean; // Run in a new git worktree on its own branch
+  priority?: number;
+  onProgress?: (step: string) => void; // Called with each new step while waiting
+  signal?: AbortSignal; // Stops waiting for completion; the task keeps running
+}
+
+// Listeners told when any task completes, fails or is stopped
+const finishListeners: Array<(task: ClaudeCodeTask) => void> = [];
+
+export function onTaskFinished(listener: (task: ClaudeCodeTask) => void): void {
+  finishListeners.push(listener);
+}
+
+function notifyTaskFinished(task: ClaudeCodeTask): void {
+  for (const listener of finishListeners) listener(task);
 }
 
-// In-memory task storage
-const tasks = new Map<string, ClaudeCodeTask>();
+// Number of parsed events kept per task
+const MAX_TASK_EVENTS = 200;
+
+// Task registry, persisted so tasks survive server restarts
+const TASKS_FILE = dataPath('tasks.json');
+const tasks = new Map<string, ClaudeCodeTask>(
+  Object.entries(readJsonFile<Record<string, ClaudeCodeTask>>(TASKS_FILE, {}))
+);
+
+// claude-* tmux sessions found that are not in the registry
+let orphanSessions: string[] = [];
+
+function saveTasks(): void {
+  writeJsonFile(TASKS_FILE, Object.fromEntries(tasks));
+}
 
 // Generate a unique task ID
 function generateTaskId(): string {
   return `task-${Date.now()}`;
 }
 
+// Look up a task, hiding tasks that belong to other users
+function getTask(taskId: string, user: string): ClaudeCodeTask | undefined {
+  const task = tasks.get(taskId);
+  return task && task.startedBy === user ? task : undefined;
+}
+
+/**
+ * Working directory a task ran in, for policy checks before continuing it
+ */
+export function getTaskWorkingDirectory(taskId: string, user: string): string | undefined {
+  return getTask(taskId, user)?.workingDirectory;
+}
+
 // Get tmux session name for a task
 function getTmuxSession(taskId: string): string {
   return `claude-${taskId}`;
 }
 
+// File the task's shell writes Claude's exit code to when it finishes
+function getExitCodeFile(taskId: string): string {
+  return dataPath('tasks', `${taskId}.exit`);
+}
+
+// Transcript of everything Claude wrote to stdout/stderr, kept after the task ends
+function getLogFile(taskId: string): string {
+  return dataPath('tasks', `${taskId}.log`);
+}
+
+// Read the tail of a task's transcript, falling back to the tmux pane for tasks started before transcripts existed
+async function readTaskOutput(task: ClaudeCodeTask, lines: number): Promise<string> {
+  const logged = readFileTail(getLogFile(task.taskId), lines);
+  if (logged !== undefined) return logged;
+
+  const captureResult = await runTmux(['capture-pane', '-t', task.tmuxSession, '-p', '-S', `-${lines}`]);
+  return captureResult.exitCode === 0 ? captureResult.stdout : '(session ended)';
+}
+
+// Parse transcript lines written since the last call into events and progress
+function ingestTaskEvents(task: ClaudeCodeTask): void {
+  const { text, offset } = readNewLines(getLogFile(task.taskId), task.logOffset || 0);
+  if (!text) return;
+
+  const events = task.events || [];
+  const progress = task.progress || { filesTouched: [] };
+  for (const line of text.split('\n')) {
+    for (const event of parseStreamJsonLine(line, task.workingDirectory)) {
+      events.push(event);
+      applyTaskEvent(progress, event, task.workingDirectory);
+    }
+  }
+
+  task.events = events.slice(-MAX_TASK_EVENTS);
+  task.progress = progress;
+  task.logOffset = offset;
+  saveTasks();
+}
+
+// Plain-English descriptions of the last few steps, oldest first
+function recentSteps(task: ClaudeCodeTask, count: number): string[] {
+  const steps: string[] = [];
+  for (const event of task.events || []) {
+    if (event.type === 'tool_use') steps.push(event.description);
+    else if (event.type === 'assistant_message') steps.push(`Said: ${event.text.substring(0, 120)}`);
+    else if (event.type === 'error') steps.push(`Error: ${event.message}`);
+  }
+  return steps.slice(-count);
+}
+
+// Read transcript output written after a cursor (or the tail, without one) plus the cursor for the next read
+async function readTaskOutputSince(
+  task: ClaudeCodeTask,
+  lines: number,
+  cursorValue?: string
+): Promise<{ output: string; cursor: string; truncated?: boolean } | { error: string }> {
+  const logFile = getLogFile(task.taskId);
+  let size = 0;
+  try {
+    size = fs.statSync(logFile).size;
+  } catch {
+    // No transcript (task started before transcripts existed, or not launched yet)
+  }
+
+  if (!cursorValue) {
+    return {
+      output: await readTaskOutput(task, lines),
+      cursor: encodeCursor({ kind: 'task', taskId: task.taskId, offset: size }),
+    };
+  }
+
+  const cursor = decodeCursor(cursorValue);
+  if (!cursor || cursor.kind !== 'task' || cursor.taskId !== task.taskId) {
+    return { error: 'Invalid cursor for this task' };
+  }
+
+  const { text, offset } = readNewLines(logFile, cursor.offset);
+  const newLines = text.replace(/\n$/, '').split('\n').filter(Boolean);
+  return {
+    output: newLines.slice(-lines).join('\n'),
+    cursor: encodeCursor({ kind: 'task', taskId: task.taskId, offset }),
+    truncated: newLines.length > lines || undefined,
+  };
+}
+
+async function listTmuxSessions(): Promise<Set<string>> {
+  const result = await runTmux(['list-sessions', '-F', '#{session_name}']);
+  return new Set(result.stdout.split('\n').filter(Boolean));
+}
+
+async function isSessionAlive(tmuxSession: string): Promise<boolean> {
+  const checkResult = await runTmux(['has-session', '-t', tmuxSession]);
+  return checkResult.exitCode === 0;
+}
+
+// Mark a task whose tmux session has gone as completed or failed, based on its recorded exit code
+function finishTask(task: ClaudeCodeTask): void {
+  let exitCode: number | undefined;
+  try {
+    exitCode = parseInt(fs.readFileSync(getExitCodeFile(task.taskId), 'utf8').trim(), 10);
+  } catch {
+    // No exit code: the session was killed before Claude finished
+  }
+
+  task.exitCode = Number.isNaN(exitCode) ? undefined : exitCode;
+  task.status = task.exitCode === 0 ? 'completed' : 'failed';
+  task.endTime = Date.now();
+  saveTasks();
+  ingestTaskEvents(task);
+  notifyTaskFinished(task);
+}
+
+// Update a running task's status if its tmux session has ended, and parse any new output
+async function refreshTaskStatus(task: ClaudeCodeTask): Promise<void> {
+  if (task.status === 'running' && !(await isSessionAlive(task.tmuxSession))) {
+    finishTask(task);
+    // A slot has freed up
+    await processQueue();
+  }
+  ingestTaskEvents(task);
+}
+
 /**
- * Start a new Claude Code task
+ * Reconcile the persisted registry with tmux after a restart: running tasks whose
+ * sessions survived are re-adopted, dead ones are finished, and unknown claude-*
+ * sessions are recorded as orphans.
  */
-export async function startClaudeCodeTask(
+export async function reconcileTasks(): Promise<{ adopted: string[]; finished: string[]; orphans: string[] }> {
+  const sessions = await listTmuxSessions();
+  const adopted: string[] = [];
+  const finished: string[] = [];
+
+  for (const task of tasks.values()) {
+    if (task.status !== 'running') continue;
+    if (sessions.has(task.tmuxSession)) {
+      adopted.push(task.taskId);
+    } else {
+      finishTask(task);
+      finished.push(task.taskId);
+    }
+    ingestTaskEvents(task);
+  }
+
+  const known = new Set(Array.from(tasks.values()).map(task => task.tmuxSession));
+  orphanSessions = Array.from(sessions).filter(name => name.startsWith('claude-') && !known.has(name));
+
+  await processQueue();
+
+  return { adopted, finished, orphans: orphanSessions };
+}
+
+type StartResult = {
+  taskId: string;
+  status: TaskStatus;
+  output?: string;
+  parentTaskId?: string;
+  branch?: string;
+  queuePosition?: number;
+};
+
+// Create and register a queued task record. Once registered, the queue may start it at any time.
+function createTask(
+  taskId: string,
   prompt: string,
   workingDirectory: string,
-  waitForCompletion: boolean = false,
-  timeoutSeconds: number = 300
-): Promise<{ taskId: string; status: TaskStatus; output?: string }> {
-  const taskId = generateTaskId();
-  const tmuxSession = getTmuxSession(taskId);
-
-  // Create the task record
+  user: string,
+  priority: number,
+  parent?: ClaudeCodeTask
+): ClaudeCodeTask {
   const task: ClaudeCodeTask = {
     taskId,
     prompt,
     workingDirectory,
-    status: 'running',
+    status: 'queued',
     startTime: Date.now(),
-    tmuxSession,
+    tmuxSession: getTmuxSession(taskId),
+    startedBy: user,
+    parentTaskId: parent?.taskId,
+    rootTaskId: parent ? parent.rootTaskId || parent.taskId : undefined,
+    worktree: parent?.worktree,
+    priority,
+    queuedAt: Date.now(),
   };
   tasks.set(taskId, task);
+  saveTasks();
+  return task;
+}
+
+// Quote a value for the shell tmux runs the task command in. Single quotes stop all expansion.
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Launch Claude for a task in its tmux session, optionally resuming an earlier Claude session
+async function launchTask(task: ClaudeCodeTask): Promise<void> {
+  const { taskId, tmuxSession } = task;
 
   // Escape the prompt for shell - use base64 to avoid escaping issues
-  const promptBase64 = Buffer.from(prompt).toString('base64');
+  const promptBase64 = Buffer.from(task.prompt).toString('base64');
+  const resumeFlag = task.resumeSessionId ? ` --resume ${shellQuote(task.resumeSessionId)}` : '';
 
-  // Build the Claude command
-  const claudeCmd = `cd ${JSON.stringify(workingDirectory)} && echo ${JSON.stringify(promptBase64)} | base64 -d | ${CLAUDE_BINARY} --dangerously-skip-permissions --output-format stream-json --verbose -p -`;
+  // Build the Claude command. Output is teed to the task transcript and the exit code
+  // recorded, so both survive the tmux session ending and server restarts.
+  const claudeCmd = `cd ${shellQuote(task.workingDirectory)} && { echo ${promptBase64} | base64 -d | ${CLAUDE_BINARY} --dangerously-skip-permissions --output-format stream-json --verbose${resumeFlag} -p - 2>&1; echo $? > ${shellQuote(getExitCodeFile(taskId))}; } | tee -a ${shellQuote(getLogFile(taskId))}`;
 
-  // Create a new tmux session and run the command
-  const createResult = await executeCommand(
-    `tmux new-session -d -s ${tmuxSession} -x 200 -y 50 ${JSON.stringify(claudeCmd)}`
-  );
+  // Create a new tmux session and run the command. tmux is called without a shell of its own,
+  // so $? is expanded by the session's shell after Claude exits, not when the session is created.
+  const createResult = await runTmux(['new-session', '-d', '-s', tmuxSession, '-x', '200', '-y', '50', claudeCmd]);
 
   if (createResult.exitCode !== 0) {
     task.status = 'failed';
     task.endTime = Date.now();
-    return {
-      taskId,
-      status: 'failed',
-      output: `Failed to start tmux session: ${createResult.stderr}`,
+    task.progress = {
+      ...(task.progress || { filesTouched: [] }),
+      lastError: `Failed to start tmux session: ${createResult.stderr}`,
     };
+    saveTasks();
   }
+}
+
+// Queued tasks in the order they will start: highest priority first, then oldest
+function queuedTasks(): ClaudeCodeTask[] {
+  return Array.from(tasks.values())
+    .filter(task => task.status === 'queued')
+    .sort((a, b) => (b.priority || 0) - (a.priority || 0) || (a.queuedAt || 0) - (b.queuedAt || 0));
+}
 
-  // If not waiting for completion, return immediately
-  if (!waitForCompletion) {
-    return { taskId, status: 'running' };
+function getQueuePosition(task: ClaudeCodeTask): number | undefined {
+  const index = queuedTasks().indexOf(task);
+  return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Start as many queued tasks as the global and per-directory limits allow
+ */
+async function processQueue(): Promise<void> {
+  const running = Array.from(tasks.values()).filter(task => task.status === 'running');
+  const runningPerDirectory = new Map<string, number>();
+  for (const task of running) {
+    const directory = path.resolve(task.workingDirectory);
+    runningPerDirectory.set(directory, (runningPerDirectory.get(directory) || 0) + 1);
+  }
+
+  let runningCount = running.length;
+  const toLaunch: ClaudeCodeTask[] = [];
+  for (const task of queuedTasks()) {
+    if (runningCount >= MAX_CONCURRENT_TASKS) break;
+    const directory = path.resolve(task.workingDirectory);
+    if ((runningPerDirectory.get(directory) || 0) >= MAX_TASKS_PER_DIRECTORY) continue;
+
+    // Mark running synchronously so a concurrent call cannot launch the same task
+    task.status = 'running';
+    task.startTime = Date.now();
+    runningCount++;
+    runningPerDirectory.set(directory, (runningPerDirectory.get(directory) || 0) + 1);
+    toLaunch.push(task);
+  }
+
+  if (toLaunch.length === 0) return;
+  saveTasks();
+  for (const task of toLaunch) {
+    await launchTask(task);
   }
+}
+
+// Poll running tasks while others are queued, so the queue advances without a client polling
+setInterval(async () => {
+  if (queuedTasks().length === 0) return;
+  for (const task of tasks.values()) {
+    await refreshTaskStatus(task);
+  }
+  await processQueue();
+}, QUEUE_POLL_MS).unref();
+
+// Output that suggests Claude (or a tool it ran) is blocked on user input
+const INPUT_PROMPT_PATTERNS = [
+  /\(y\/n\)/i,
+  /\[y\/n\]/i,
+  /do you want to (proceed|continue)/i,
+  /press enter/i,
+  /waiting for (your )?input/i,
+  /\? for shortcuts/,
+];
+
+export type WaitReason =
+  | 'completed'
+  | 'failed'
+  | 'stopped'
+  | 'pattern_matched'
+  | 'waiting_for_input'
+  | 'timeout'
+  | 'cancelled';
+
+interface WaitConditions {
+  timeoutSeconds: number;
+  pattern?: RegExp; // Return when a new output line matches
+  idleSeconds?: number; // Treat this long without new output as waiting for input
+  detectInput?: boolean; // Return when the output looks like an input prompt
+  onProgress?: (step: string) => void; // Called when the current step changes
+  signal?: AbortSignal; // Stops waiting (the task keeps running)
+}
 
-  // Wait for completion
+// Block until the task finishes or one of the conditions is met
+async function waitForTask(
+  task: ClaudeCodeTask,
+  conditions: WaitConditions
+): Promise<{ reason: WaitReason; newOutput: string; matchedLine?: string }> {
   const startTime = Date.now();
-  const timeoutMs = timeoutSeconds * 1000;
+  const timeoutMs = conditions.timeoutSeconds * 1000;
+  const logFile = getLogFile(task.taskId);
+  // Only output written from now on counts, so start at the end of the transcript
+  let offset = 0;
+  try {
+    offset = fs.statSync(logFile).size;
+  } catch {
+    // No transcript yet
+  }
+  let lastOutputTime = Date.now();
+  let newOutput = '';
+  let lastStep: string | undefined;
 
-  while (Date.now() - startTime < timeoutMs) {
+  while (true) {
     // Check if tmux session still exists
-    const checkResult = await executeCommand(`tmux has-session -t ${tmuxSession} 2>/dev/null && echo running || echo done`);
+    await refreshTaskStatus(task);
+    await processQueue();
 
-    if (checkResult.stdout.trim() === 'done') {
-      // Session ended, get final output
-      task.status = 'completed';
-      task.endTime = Date.now();
+    const step = task.status === 'queued' ? `Queued (position ${getQueuePosition(task)})` : task.progress?.currentStep;
+    if (conditions.onProgress && step && step !== lastStep) {
+      conditions.onProgress(step);
+    }
+    lastStep = step;
 
-      const outputResult = await getClaudeCodeOutput(taskId);
-      const outputText = 'output' in outputResult ? outputResult.output : '(no output)';
-      return { taskId, status: 'completed', output: outputText };
+    const read = readNewLines(logFile, offset);
+    offset = read.offset;
+    if (read.text) {
+      newOutput += read.text;
+      lastOutputTime = Date.now();
+    }
+
+    if (task.status === 'completed' || task.status === 'failed' || task.status === 'stopped') {
+      return { reason: task.status, newOutput };
+    }
+
+    if (conditions.pattern && read.text) {
+      const matchedLine = read.text.split('\n').find(line => conditions.pattern!.test(line));
+      if (matchedLine !== undefined) {
+        return { reason: 'pattern_matched', newOutput, matchedLine };
+      }
+    }
+
+    if (task.status === 'running') {
+      if (conditions.detectInput) {
+        const pane = await runTmux(['capture-pane', '-t', task.tmuxSession, '-p', '-S', '-5']);
+        const tail = `${read.text}\n${pane.stdout}`;
+        if (INPUT_PROMPT_PATTERNS.some(prompt => prompt.test(tail))) {
+          return { reason: 'waiting_for_input', newOutput };
+        }
+      }
+      if (conditions.idleSeconds && Date.now() - lastOutputTime >= conditions.idleSeconds * 1000) {
+        return { reason: 'waiting_for_input', newOutput };
+      }
+    }
+
+    if (Date.now() - startTime >= timeoutMs) {
+      return { reason: 'timeout', newOutput };
+    }
+
+    if (conditions.signal?.aborted) {
+      return { reason: 'cancelled', newOutput };
     }
 
     // Wait a bit before checking again
     await new Promise(resolve => setTimeout(resolve, 1000));
   }
+}
+
+// Wait for a task to leave the queue and finish, up to the timeout
+async function waitForTaskCompletion(
+  task: ClaudeCodeTask,
+  timeoutSeconds: number,
+  onProgress?: (step: string) => void,
+  signal?: AbortSignal
+): Promise<StartResult> {
+  const { reason } = await waitForTask(task, { timeoutSeconds, onProgress, signal });
+
+  if (reason !== 'timeout' && reason !== 'cancelled') {
+    // Session ended, get final output
+    const outputResult = await getClaudeCodeOutput(task.taskId, task.startedBy);
+    const outputText = 'output' in outputResult ? outputResult.output : '(no output)';
+    return {
+      taskId: task.taskId,
+      status: task.status,
+      output: outputText,
+      parentTaskId: task.parentTaskId,
+      branch: task.worktree?.branch,
+    };
+  }
+
+  // Timeout reached, or the caller stopped waiting
+  return {
+    taskId: task.taskId,
+    status: task.status,
+    output: `Task still ${task.status} after timeout`,
+    parentTaskId: task.parentTaskId,
+    branch: task.worktree?.branch,
+    queuePosition: getQueuePosition(task),
+  };
+}
+
+// Queue a created task, start it if there is capacity, and optionally wait for it
+async function enqueueTask(task: ClaudeCodeTask, options: StartOptions): Promise<StartResult> {
+  await processQueue();
+
+  if (options.waitForCompletion) {
+    return waitForTaskCompletion(
+      task,
+      Math.min(options.timeoutSeconds ?? 300, MAX_WAIT_SECONDS),
+      options.onProgress,
+      options.signal
+    );
+  }
 
-  // Timeout reached
-  return { taskId, status: 'running', output: 'Task still running after timeout' };
+  return {
+    taskId: task.taskId,
+    status: task.status,
+    output: task.status === 'failed' ? task.progress?.lastError : undefined,
+    parentTaskId: task.parentTaskId,
+    branch: task.worktree?.branch,
+    queuePosition: getQueuePosition(task),
+  };
+}
+
+/**
+ * Start a new Claude Code task, or queue it if the concurrency limits are reached
+ */
+export async function startClaudeCodeTask(
+  prompt: string,
+  workingDirectory: string,
+  user: string,
+  options: StartOptions = {}
+): Promise<StartResult> {
+  const taskId = generateTaskId();
+
+  // The worktree is made before the task is registered, so the queue cannot start it in the main checkout
+  const created = options.isolated ? await createWorktree(workingDirectory, taskId) : undefined;
+  const task = createTask(taskId, prompt, workingDirectory, user, options.priority || 0);
+
+  if (created && 'error' in created) {
+    task.status = 'failed';
+    task.endTime = Date.now();
+    saveTasks();
+    return { taskId, status: 'failed', output: created.error };
+  }
+  if (created) {
+    task.worktree = created.worktree;
+    task.workingDirectory = created.workingDirectory;
+    saveTasks();
+  }
+
+  return enqueueTask(task, options);
+}
+
+/**
+ * Continue a finished task's Claude session with a follow-up prompt.
+ * Runs as a new child task with --resume in the same working directory.
+ */
+export async function continueClaudeCodeTask(
+  taskId: string,
+  prompt: string,
+  user: string,
+  options: StartOptions = {}
+): Promise<StartResult | { error: string }> {
+  const parent = getTask(taskId, user);
+  if (!parent) {
+    return { error: `Task not found: ${taskId}` };
+  }
+
+  await refreshTaskStatus(parent);
+
+  if (parent.status === 'running' || parent.status === 'queued') {
+    return { error: `Task is still ${parent.status}; use send_to_claude_code or wait for it to finish` };
+  }
+
+  const sessionId = parent.progress?.sessionId;
+  if (!sessionId) {
+    return { error: `No Claude session id was recorded for task ${taskId}, so it cannot be resumed` };
+  }
+
+  if (parent.worktree && parent.worktree.state !== 'active') {
+    return { error: `Task ${taskId}'s worktree was ${parent.worktree.state}; start a new task instead` };
+  }
+
+  const task = createTask(generateTaskId(), prompt, parent.workingDirectory, user, options.priority || 0, parent);
+  task.resumeSessionId = sessionId;
+  saveTasks();
+  return enqueueTask(task, options);
+}
+
+/**
+ * Block until a task finishes, prints a line matching a pattern, or appears to need input.
+ * Reports what happened while waiting.
+ */
+export async function waitForClaudeCode(
+  taskId: string,
+  user: string,
+  options: {
+    timeoutSeconds?: number;
+    pattern?: string;
+    idleSeconds?: number;
+    onProgress?: (step: string) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<
+  | {
+      taskId: string;
+      reason: WaitReason;
+      status: TaskStatus;
+      waitedSeconds: number;
+      newSteps: string[];
+      matchedLine?: string;
+      currentStep?: string;
+      filesTouched: string[];
+      finalAnswer?: string;
+      lastError?: string;
+      queuePosition?: number;
+    }
+  | { error: string }
+> {
+  const task = getTask(taskId, user);
+  if (!task) {
+    return { error: `Task not found: ${taskId}` };
+  }
+
+  let pattern: RegExp | undefined;
+  if (options.pattern) {
+    try {
+      pattern = new RegExp(options.pattern, 'i');
+    } catch (error) {
+      return { error: `Invalid pattern: ${error}` };
+    }
+  }
+
+  const waitStart = Date.now();
+  const { reason, matchedLine } = await waitForTask(task, {
+    timeoutSeconds: Math.min(options.timeoutSeconds ?? 120, MAX_WAIT_SECONDS),
+    pattern,
+    idleSeconds: options.idleSeconds,
+    detectInput: true,
+    onProgress: options.onProgress,
+    signal: options.signal,
+  });
+
+  // Steps parsed from output that arrived while waiting
+  const newEvents = (task.events || []).filter(event => event.timestamp >= waitStart);
+  const newSteps = recentSteps({ ...task, events: newEvents }, 10);
+
+  return {
+    taskId,
+    reason,
+    status: task.status,
+    waitedSeconds: Math.round((Date.now() - waitStart) / 1000),
+    newSteps,
+    matchedLine,
+    currentStep: task.progress?.currentStep,
+    filesTouched: task.progress?.filesTouched || [],
+    finalAnswer: task.progress?.finalAnswer,
+    lastError: task.progress?.lastError,
+    queuePosition: getQueuePosition(task),
+  };
 }
 
 /**
  * Get the status of a Claude Code task
  */
 export async function getClaudeCodeStatus(
-  taskId: string
-): Promise<{ status: TaskStatus; runtimeSeconds: number; lastOutput: string } | { error: string }> {
-  const task = tasks.get(taskId);
+  taskId: string,
+  user: string,
+  cursor?: string
+): Promise<
+  | {
+      status: TaskStatus;
+      runtimeSeconds: number;
+      currentStep?: string;
+      recentSteps: string[];
+      filesTouched: string[];
+      finalAnswer?: string;
+      lastError?: string;
+      costUsd?: number;
+      sessionId?: string;
+      parentTaskId?: string;
+      queuePosition?: number;
+      lastOutput: string;
+      cursor: string;
+    }
+  | { error: string }
+> {
+  const task = getTask(taskId, user);
   if (!task) {
     return { error: `Task not found: ${taskId}` };
   }
 
   // Check if tmux session still exists
-  const checkResult = await executeCommand(`tmux has-session -t ${task.tmuxSession} 2>/dev/null && echo running || echo done`);
-
-  if (task.status === 'running' && checkResult.stdout.trim() === 'done') {
-    task.status = 'completed';
-    task.endTime = Date.now();
-  }
+  await refreshTaskStatus(task);
 
   const runtimeSeconds = Math.floor(
     ((task.endTime || Date.now()) - task.startTime) / 1000
   );
 
-  // Get last output
-  const captureResult = await executeCommand(
-    `tmux capture-pane -t ${task.tmuxSession} -p -S -30 2>/dev/null || echo "(session ended)"`
-  );
+  // Get last output, or only what is new since the cursor
+  const read = await readTaskOutputSince(task, 30, cursor);
+  if ('error' in read) {
+    return read;
+  }
+
+  const progress = task.progress;
 
   return {
     status: task.status,
     runtimeSeconds,
-    lastOutput: captureResult.stdout || '(no output)',
+    currentStep: progress?.currentStep,
+    recentSteps: recentSteps(task, 5),
+    filesTouched: progress?.filesTouched || [],
+    finalAnswer: progress?.finalAnswer,
+    lastError: progress?.lastError,
+    costUsd: progress?.costUsd,
+    sessionId: progress?.sessionId,
+    parentTaskId: task.parentTaskId,
+    queuePosition: getQueuePosition(task),
+    lastOutput: read.output || (cursor ? '(no new output)' : '(no output)'),
+    cursor: read.cursor,
   };
 }
 
@@ -145,29 +738,32 @@ export async function getClaudeCodeStatus(
  */
 export async function getClaudeCodeOutput(
   taskId: string,
-  lines?: number
-): Promise<{ output: string; status: TaskStatus } | { error: string }> {
-  const task = tasks.get(taskId);
+  user: string,
+  lines?: number,
+  cursor?: string
+): Promise<
+  { output: string; status: TaskStatus; finalAnswer?: string; cursor: string; truncated?: boolean } | { error: string }
+> {
+  const task = getTask(taskId, user);
   if (!task) {
     return { error: `Task not found: ${taskId}` };
   }
 
   // Check if session still exists and update status
-  const checkResult = await executeCommand(`tmux has-session -t ${task.tmuxSession} 2>/dev/null && echo running || echo done`);
-
-  if (task.status === 'running' && checkResult.stdout.trim() === 'done') {
-    task.status = 'completed';
-    task.endTime = Date.now();
-  }
+  await refreshTaskStatus(task);
 
   const lineCount = lines || 500;
-  const captureResult = await executeCommand(
-    `tmux capture-pane -t ${task.tmuxSession} -p -S -${lineCount} 2>/dev/null || echo "(session ended)"`
-  );
+  const read = await readTaskOutputSince(task, lineCount, cursor);
+  if ('error' in read) {
+    return read;
+  }
 
   return {
-    output: captureResult.stdout || '(no output)',
+    output: read.output || (cursor ? '(no new output)' : '(no output)'),
     status: task.status,
+    finalAnswer: task.progress?.finalAnswer,
+    cursor: read.cursor,
+    truncated: read.truncated,
   };
 }
 
@@ -176,30 +772,34 @@ export async function getClaudeCodeOutput(
  */
 export async function sendToClaudeCode(
   taskId: string,
-  message: string
+  message: string,
+  user: string
 ): Promise<{ sent: boolean; error?: string }> {
-  const task = tasks.get(taskId);
+  const task = getTask(taskId, user);
   if (!task) {
     return { sent: false, error: `Task not found: ${taskId}` };
   }
 
+  if (task.status === 'queued') {
+    return { sent: false, error: `Task is still queued (position ${getQueuePosition(task)})` };
+  }
+
   if (task.status !== 'running') {
-    return { sent: false, error: `Task is not running (status: ${task.status})` };
+    return {
+      sent: false,
+      error: `Task is not running (status: ${task.status}). Use continue_claude_code_task to follow up.`,
+    };
   }
 
   // Check if session still exists
-  const checkResult = await executeCommand(`tmux has-session -t ${task.tmuxSession} 2>/dev/null && echo running || echo done`);
+  await refreshTaskStatus(task);
 
-  if (checkResult.stdout.trim() === 'done') {
-    task.status = 'completed';
-    task.endTime = Date.now();
-    return { sent: false, error: 'Task has already completed' };
+  if (task.status !== 'running') {
+    return { sent: false, error: 'Task has already completed. Use continue_claude_code_task to follow up.' };
   }
 
   // Send the message to the tmux session
-  const sendResult = await executeCommand(
-    `tmux send-keys -t ${task.tmuxSession} ${JSON.stringify(message)} Enter`
-  );
+  const sendResult = await runTmux(['send-keys', '-t', task.tmuxSession, message, 'Enter']);
 
   if (sendResult.exitCode !== 0) {
     return { sent: false, error: `Failed to send: ${sendResult.stderr}` };
@@ -209,59 +809,199 @@ export async function sendToClaudeCode(
 }
 
 /**
- * List all Claude Code sessions
+ * List all Claude Code sessions started by a user, or just the conversation thread containing threadTaskId
  */
-export async function listClaudeCodeSessions(): Promise<{
+export async function listClaudeCodeSessions(user: string, threadTaskId?: string): Promise<{
   sessions: Array<{
     taskId: string;
     prompt: string;
     status: TaskStatus;
     runtimeSeconds: number;
     workingDirectory: string;
+    currentStep?: string;
+    parentTaskId?: string;
+    queuePosition?: number;
   }>;
+  orphanSessions: string[];
 }> {
-  // Update status of all running tasks
-  for (const task of tasks.values()) {
-    if (task.status === 'running') {
-      const checkResult = await executeCommand(`tmux has-session -t ${task.tmuxSession} 2>/dev/null && echo running || echo done`);
-      if (checkResult.stdout.trim() === 'done') {
-        task.status = 'completed';
-        task.endTime = Date.now();
-      }
-    }
+  // Reconcile against tmux, updating running tasks and finding orphan sessions
+  await reconcileTasks();
+
+  let userTasks = Array.from(tasks.values()).filter(task => task.startedBy === user);
+  if (threadTaskId) {
+    const threadTask = getTask(threadTaskId, user);
+    const rootId = threadTask ? threadTask.rootTaskId || threadTask.taskId : undefined;
+    userTasks = userTasks
+      .filter(task => (task.rootTaskId || task.taskId) === rootId)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+  for (const task of userTasks) {
+    ingestTaskEvents(task);
   }
 
-  const sessions = Array.from(tasks.values()).map(task => ({
+  const sessions = userTasks.map(task => ({
     taskId: task.taskId,
     prompt: task.prompt.substring(0, 100) + (task.prompt.length > 100 ? '...' : ''),
     status: task.status,
     runtimeSeconds: Math.floor(((task.endTime || Date.now()) - task.startTime) / 1000),
     workingDirectory: task.workingDirectory,
+    currentStep: task.progress?.currentStep,
+    parentTaskId: task.parentTaskId,
+    queuePosition: getQueuePosition(task),
   }));
 
-  return { sessions };
+  return { sessions, orphanSessions };
 }
 
 /**
- * Stop a running Claude Code task
+ * Stop a running Claude Code task, or cancel a queued one
  */
 export async function stopClaudeCodeTask(
-  taskId: string
+  taskId: string,
+  user: string
 ): Promise<{ stopped: boolean; error?: string }> {
-  const task = tasks.get(taskId);
+  const task = getTask(taskId, user);
   if (!task) {
     return { stopped: false, error: `Task not found: ${taskId}` };
   }
 
+  if (task.status === 'queued') {
+    // Never launched, so there is no session to kill
+    task.status = 'stopped';
+    task.endTime = Date.now();
+    saveTasks();
+    return { stopped: true };
+  }
+
   if (task.status !== 'running') {
     return { stopped: false, error: `Task is not running (status: ${task.status})` };
   }
 
   // Kill the tmux session
-  const killResult = await executeCommand(`tmux kill-session -t ${task.tmuxSession} 2>/dev/null`);
+  await runTmux(['kill-session', '-t', task.tmuxSession]);
 
   task.status = 'stopped';
   task.endTime = Date.now();
+  saveTasks();
+  notifyTaskFinished(task);
+
+  // A slot has freed up
+  await processQueue();
 
   return { stopped: true };
 }
+
+// Find an isolated task that is not running, for review/merge/discard
+async function getIdleWorktreeTask(
+  taskId: string,
+  user: string
+): Promise<{ task: ClaudeCodeTask; worktree: TaskWorktree } | { error: string }> {
+  const task = getTask(taskId, user);
+  if (!task) {
+    return { error: `Task not found: ${taskId}` };
+  }
+  if (!task.worktree) {
+    return { error: `Task ${taskId} was not started in an isolated worktree` };
+  }
+  if (task.worktree.state !== 'active') {
+    return { error: `Task ${taskId}'s worktree was already ${task.worktree.state}` };
+  }
+
+  // Every task sharing the worktree (the whole continuation thread) must be finished
+  for (const other of tasks.values()) {
+    if (other.worktree?.path === task.worktree.path) await refreshTaskStatus(other);
+    if (other.worktree?.path === task.worktree.path && (other.status === 'running' || other.status === 'queued')) {
+      return { error: `Task ${other.taskId} is still ${other.status} in this worktree; wait for it or stop it first` };
+    }
+  }
+
+  return { task, worktree: task.worktree };
+}
+
+// Record a new worktree state on every task that shares the worktree
+function setWorktreeState(worktree: TaskWorktree, state: TaskWorktree['state']): void {
+  for (const task of tasks.values()) {
+    if (task.worktree?.path === worktree.path) {
+      task.worktree = { ...task.worktree, state };
+    }
+  }
+  saveTasks();
+}
+
+/**
+ * Summarize the changes an isolated task made on its branch
+ */
+export async function reviewClaudeCodeChanges(
+  taskId: string,
+  user: string
+): Promise<
+  | {
+      branch: string;
+      baseBranch: string;
+      summary: string;
+      files: Array<{ path: string; change: string }>;
+      commits: string[];
+    }
+  | { error: string }
+> {
+  const task = getTask(taskId, user);
+  if (!task) {
+    return { error: `Task not found: ${taskId}` };
+  }
+  if (!task.worktree) {
+    return { error: `Task ${taskId} was not started in an isolated worktree` };
+  }
+  if (task.worktree.state !== 'active') {
+    return { error: `Task ${taskId}'s worktree was already ${task.worktree.state}` };
+  }
+
+  const { summary, files, commits } = await summarizeWorktree(task.worktree);
+  return { branch: task.worktree.branch, baseBranch: task.worktree.baseBranch, summary, files, commits };
+}
+
+/**
+ * Merge an isolated task's branch back into the main checkout and remove the worktree
+ */
+export async function mergeClaudeCodeChanges(
+  taskId: string,
+  user: string,
+  commitMessage?: string
+): Promise<{ merged: boolean; summary?: string; error?: string }> {
+  const found = await getIdleWorktreeTask(taskId, user);
+  if ('error' in found) {
+    return { merged: false, error: found.error };
+  }
+
+  const { task, worktree } = found;
+  const { summary } = await summarizeWorktree(worktree);
+  const message = commitMessage || `Claude Code task ${task.taskId}: ${task.prompt.split('\n')[0].substring(0, 60)}`;
+
+  const result = await mergeWorktree(worktree, message);
+  if (result.error) {
+    return { merged: false, error: result.error };
+  }
+
+  setWorktreeState(worktree, 'merged');
+  return { merged: true, summary: `Merged ${worktree.branch} into ${worktree.baseBranch}. ${summary}` };
+}
+
+/**
+ * Throw away an isolated task's worktree and branch
+ */
+export async function discardClaudeCodeChanges(
+  taskId: string,
+  user: string
+): Promise<{ discarded: boolean; error?: string }> {
+  const found = await getIdleWorktreeTask(taskId, user);
+  if ('error' in found) {
+    return { discarded: false, error: found.error };
+  }
+
+  const result = await removeWorktree(found.worktree);
+  if (result.error) {
+    return { discarded: false, error: result.error };
+  }
+
+  setWorktreeState(found.worktree, 'discarded');
+  return { discarded: true };
+}
@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+
+// Requests the server sends to the MCP client (e.g. elicitation/create) and the responses it POSTs back
+
+// How long to wait for the client (and the human behind it) to answer
+const CLIENT_REQUEST_TIMEOUT_SECONDS = parseInt(process.env.CLIENT_REQUEST_TIMEOUT_SECONDS || '', 10) || 120;
+
+export interface ClientRequest {
+  jsonrpc: '2.0';
+  id: string;
+  method: string;
+  params: Record<string, unknown>;
+}
+
+export interface ClientResponse {
+  jsonrpc: '2.0';
+  id: string | number;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+// Sends a server-to-client request over whatever stream the current call has open
+export type SendClientRequest = (method: string, params: Record<string, unknown>) => Promise<unknown>;
+
+const pending = new Map<string, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+/**
+ * A JSON-RPC message with an id and a result or error but no method is the client answering us
+ */
+export function isClientResponse(message: unknown): message is ClientResponse {
+  const candidate = message as Record<string, unknown> | undefined;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    !('method' in candidate) &&
+    'id' in candidate &&
+    ('result' in candidate || 'error' in candidate)
+  );
+}
+
+/**
+ * Route a client's response to the request waiting for it. Returns false if nothing was waiting.
+ */
+export function resolveClientResponse(response: ClientResponse): boolean {
+  const waiter = pending.get(String(response.id));
+  if (!waiter) return false;
+
+  pending.delete(String(response.id));
+  if (response.error) {
+    waiter.reject(new Error(response.error.message));
+  } else {
+    waiter.resolve(response.result);
+  }
+  return true;
+}
+
+/**
+ * Build a request for the client and a promise for its response. `write` delivers the request.
+ */
+export function createClientRequestSender(write: (request: ClientRequest) => void): SendClientRequest {
+  return (method, params) => {
+    const request: ClientRequest = {
+      jsonrpc: '2.0',
+      id: `srv-${crypto.randomBytes(8).toString('hex')}`,
+      method,
+      params,
+    };
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(request.id);
+        reject(new Error(`No response to ${method} after ${CLIENT_REQUEST_TIMEOUT_SECONDS} seconds`));
+      }, CLIENT_REQUEST_TIMEOUT_SECONDS * 1000);
+
+      pending.set(request.id, {
+        resolve: result => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      write(request);
+    });
+  };
+}
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+
+// Single-use confirmation tokens for clients without elicitation support.
+// A token is bound to the grant, the tool and the exact arguments it was issued for.
+
+const CONFIRMATION_TTL_SECONDS = 300;
+
+const tokens = new Map<string, { grantId: string; tool: string; argsHash: string; expiresAt: number }>();
+
+// Hash the arguments, minus the token itself, with keys in a stable order
+function hashArgs(args: Record<string, unknown> | undefined): string {
+  const { confirmationToken: _token, ...rest } = args || {};
+  const sorted = Object.keys(rest)
+    .sort()
+    .map(key => [key, rest[key]]);
+  return crypto.createHash('sha256').update(JSON.stringify(sorted)).digest('hex');
+}
+
+export function issueConfirmationToken(grantId: string, tool: string, args: Record<string, unknown> | undefined): string {
+  const now = Date.now();
+  for (const [token, entry] of tokens) {
+    if (entry.expiresAt <= now) tokens.delete(token);
+  }
+
+  const token = crypto.randomBytes(6).toString('hex');
+  tokens.set(token, { grantId, tool, argsHash: hashArgs(args), expiresAt: now + CONFIRMATION_TTL_SECONDS * 1000 });
+  return token;
+}
+
+/**
+ * Check and consume a confirmation token. Only valid once, for the same grant, tool and arguments.
+ */
+export function consumeConfirmationToken(
+  token: string,
+  grantId: string,
+  tool: string,
+  args: Record<string, unknown> | undefined
+): boolean {
+  const entry = tokens.get(token);
+  if (!entry || entry.expiresAt <= Date.now()) return false;
+  if (entry.grantId !== grantId || entry.tool !== tool || entry.argsHash !== hashArgs(args)) return false;
+
+  tokens.delete(token);
+  return true;
+}
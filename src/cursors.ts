@@ -0,0 +1,42 @@
+// Opaque cursors for incremental "what's new since last time" reads
+
+export type Cursor =
+  | { kind: 'task'; taskId: string; offset: number } // Byte offset into a task transcript
+  | { kind: 'job'; jobId: string; offset: number } // Byte offset into a background job's output
+  | { kind: 'pane'; session: string; line: number }; // Absolute line in a tmux pane's history
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor string, returning undefined if it is malformed
+ */
+export function decodeCursor(value: string): Cursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (cursor?.kind === 'task' && typeof cursor.taskId === 'string' && Number.isInteger(cursor.offset)) {
+      return cursor;
+    }
+    if (cursor?.kind === 'job' && typeof cursor.jobId === 'string' && Number.isInteger(cursor.offset)) {
+      return cursor;
+    }
+    if (cursor?.kind === 'pane' && typeof cursor.session === 'string' && Number.isInteger(cursor.line)) {
+      return cursor;
+    }
+  } catch {
+    // Fall through
+  }
+  return undefined;
+}
+
+// Last cursor handed to each grant for each target, so "since last check" needs no cursor from the client
+const defaultCursors = new Map<string, string>();
+
+export function getDefaultCursor(owner: string, target: string): string | undefined {
+  return defaultCursors.get(`${owner}\n${target}`);
+}
+
+export function setDefaultCursor(owner: string, target: string, cursor: string): void {
+  defaultCursors.set(`${owner}\n${target}`, cursor);
+}
@@ -1,38 +1,255 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import readline from 'readline';
+import { spawn } from 'child_process';
+import { dataPath } from './persist.js';
 
-const execAsync = promisify(exec);
+// Default and maximum time a foreground command may run
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const MAX_TIMEOUT_SECONDS = 600;
+
+// Output kept per stream before the middle is dropped
+const DEFAULT_MAX_OUTPUT_BYTES = parseInt(process.env.COMMAND_MAX_OUTPUT_BYTES || '', 10) || 1024 * 1024;
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024; // Per stream, whatever the caller asks for
+
+// Spilled full output is deleted after this long
+const OUTPUT_RETENTION_HOURS = parseInt(process.env.COMMAND_OUTPUT_RETENTION_HOURS || '', 10) || 24;
 
 export interface ExecuteResult {
   stdout: string;
   stderr: string;
   exitCode: number;
+  timedOut?: boolean;
+  truncated?: boolean; // Some output was omitted from stdout/stderr
+  outputId?: string; // Full output can be read back with readCommandOutput
+}
+
+export interface ExecuteOptions {
+  timeoutSeconds?: number;
+  maxOutputBytes?: number;
+  env?: Record<string, string>; // Added to the server's environment
+  stdin?: string;
+  owner?: string; // Spill truncated output to a file this user can read back
+  onOutput?: (text: string) => void; // Called with each chunk of stdout/stderr as it arrives
+  signal?: AbortSignal; // Kills the command when aborted, e.g. by notifications/cancelled
+}
+
+type OutputStream = 'stdout' | 'stderr';
+
+function getOutputFile(owner: string, outputId: string, stream: OutputStream): string {
+  return dataPath('output', owner, `${outputId}.${stream}`);
+}
+
+// Delete spilled output older than the retention period
+function pruneOutputFiles(owner: string, outputId: string): void {
+  const cutoff = Date.now() - OUTPUT_RETENTION_HOURS * 3600 * 1000;
+  const directory = path.dirname(getOutputFile(owner, outputId, 'stdout'));
+  for (const name of fs.readdirSync(directory)) {
+    const file = path.join(directory, name);
+    if (fs.statSync(file).mtimeMs < cutoff) fs.rmSync(file, { force: true });
+  }
+}
+
+function countNewlines(buffer: Buffer): number {
+  let count = 0;
+  for (let index = buffer.indexOf(0x0a); index !== -1; index = buffer.indexOf(0x0a, index + 1)) count++;
+  return count;
+}
+
+/**
+ * Collects one output stream, keeping the first and last maxBytes/2 bytes.
+ * Once the cap is exceeded everything is also written to a spill file, if one is given.
+ */
+function createCollector(maxBytes: number, spillFile?: () => string) {
+  const half = Math.floor(maxBytes / 2);
+  const tailKeep = maxBytes - half;
+  const head: Buffer[] = [];
+  let headBytes = 0;
+  const tail: Buffer[] = [];
+  let tailBytes = 0;
+  let totalBytes = 0;
+  let totalLines = 0;
+  let spillFd: number | undefined;
+
+  return {
+    write(chunk: Buffer): void {
+      totalBytes += chunk.length;
+      totalLines += countNewlines(chunk);
+
+      if (spillFd === undefined && spillFile && totalBytes > maxBytes) {
+        // Nothing has been dropped yet, so the buffers plus this chunk are the whole output
+        spillFd = fs.openSync(spillFile(), 'w', 0o600);
+        for (const buffer of [...head, ...tail, chunk]) fs.writeSync(spillFd, buffer);
+      } else if (spillFd !== undefined) {
+        fs.writeSync(spillFd, chunk);
+      }
+
+      if (headBytes < half) {
+        const taken = chunk.subarray(0, half - headBytes);
+        head.push(taken);
+        headBytes += taken.length;
+        chunk = chunk.subarray(taken.length);
+      }
+      if (chunk.length > 0) {
+        tail.push(chunk);
+        tailBytes += chunk.length;
+        while (tail.length > 1 && tailBytes - tail[0].length >= tailKeep) {
+          tailBytes -= tail.shift()!.length;
+        }
+      }
+    },
+
+    finish(): { text: string; truncated: boolean; spilled: boolean } {
+      if (spillFd !== undefined) fs.closeSync(spillFd);
+
+      const headText = Buffer.concat(head);
+      let tailText = Buffer.concat(tail);
+      if (totalBytes <= maxBytes) {
+        return { text: Buffer.concat([headText, tailText]).toString('utf8'), truncated: false, spilled: false };
+      }
+
+      // Cut at line boundaries so the marker sits between whole lines
+      tailText = tailText.subarray(Math.max(tailText.length - tailKeep, 0));
+      const headEnd = headText.lastIndexOf(0x0a) + 1 || headText.length;
+      const tailStart = tailText.indexOf(0x0a) + 1;
+      const keptHead = headText.subarray(0, headEnd);
+      const keptTail = tailText.subarray(tailStart);
+      const omitted = Math.max(totalLines - countNewlines(keptHead) - countNewlines(keptTail), 0);
+
+      const marker = `\n... ${omitted} lines omitted ...\n`;
+      return {
+        text: keptHead.toString('utf8') + marker + keptTail.toString('utf8'),
+        truncated: true,
+        spilled: spillFd !== undefined,
+      };
+    },
+  };
 }
 
 export async function executeCommand(
   command: string,
-  cwd?: string
+  cwd?: string,
+  options: ExecuteOptions = {}
 ): Promise<ExecuteResult> {
-  const options = {
+  const timeoutSeconds = Math.min(options.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS, MAX_TIMEOUT_SECONDS);
+  const maxOutputBytes = Math.min(options.maxOutputBytes || DEFAULT_MAX_OUTPUT_BYTES, MAX_OUTPUT_BYTES);
+
+  const outputId = `out-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+  const spillFile = (stream: OutputStream) =>
+    options.owner ? () => getOutputFile(options.owner!, outputId, stream) : undefined;
+  const stdout = createCollector(maxOutputBytes, spillFile('stdout'));
+  const stderr = createCollector(maxOutputBytes, spillFile('stderr'));
+
+  // Its own process group, so a timeout also kills anything the command started
+  const child = spawn('/bin/bash', ['-c', command], {
     cwd: cwd || process.env.HOME,
-    timeout: 60000, // 60 second timeout
-    maxBuffer: 1024 * 1024, // 1MB max output
-    shell: '/bin/bash',
+    env: { ...process.env, ...options.env },
+    detached: true,
+  });
+  child.stdout.on('data', (chunk: Buffer) => {
+    stdout.write(chunk);
+    options.onOutput?.(chunk.toString('utf8'));
+  });
+  child.stderr.on('data', (chunk: Buffer) => {
+    stderr.write(chunk);
+    options.onOutput?.(chunk.toString('utf8'));
+  });
+  child.stdin.on('error', () => {
+    // The command exited without reading its input
+  });
+  child.stdin.end(options.stdin || '');
+
+  const killGroup = () => {
+    try {
+      process.kill(-child.pid!, 'SIGKILL');
+    } catch {
+      // Already exited
+    }
+  };
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    killGroup();
+  }, timeoutSeconds * 1000);
+
+  let cancelled = false;
+  const onAbort = () => {
+    cancelled = true;
+    killGroup();
+  };
+  if (options.signal?.aborted) onAbort();
+  options.signal?.addEventListener('abort', onAbort);
+
+  const { code, error } = await new Promise<{ code: number | null; error?: Error }>(resolve => {
+    child.on('error', error => resolve({ code: null, error }));
+    child.on('close', code => resolve({ code }));
+  });
+  clearTimeout(timer);
+  options.signal?.removeEventListener('abort', onAbort);
+
+  const out = stdout.finish();
+  const err = stderr.finish();
+  let stderrText = err.text.trim();
+  if (error) {
+    // spawn reports a missing cwd as the shell itself being missing
+    const missingCwd = (error as NodeJS.ErrnoException).code === 'ENOENT' && cwd && !fs.existsSync(cwd);
+    stderrText = missingCwd ? `Working directory not found: ${cwd}` : String(error);
+  } else if (timedOut) {
+    stderrText += `${stderrText ? '\n' : ''}Command timed out after ${timeoutSeconds} seconds`;
+  } else if (cancelled) {
+    stderrText += `${stderrText ? '\n' : ''}Command cancelled`;
+  }
+
+  if (out.spilled || err.spilled) {
+    pruneOutputFiles(options.owner!, outputId);
+  }
+
+  return {
+    stdout: out.text.trim(),
+    stderr: stderrText,
+    exitCode: timedOut ? 124 : code ?? 1,
+    timedOut: timedOut || undefined,
+    truncated: out.truncated || err.truncated || undefined,
+    outputId: out.spilled || err.spilled ? outputId : undefined,
   };
+}
 
-  try {
-    const { stdout, stderr } = await execAsync(command, options);
-    return {
-      stdout: stdout.trim(),
-      stderr: stderr.trim(),
-      exitCode: 0,
-    };
-  } catch (error: unknown) {
-    const execError = error as { stdout?: string; stderr?: string; code?: number };
-    return {
-      stdout: execError.stdout?.trim() || '',
-      stderr: execError.stderr?.trim() || String(error),
-      exitCode: execError.code || 1,
-    };
+/**
+ * Read lines of a command's full output that was spilled to a file after truncation
+ */
+export async function readCommandOutput(
+  owner: string,
+  outputId: string,
+  stream: OutputStream = 'stdout',
+  startLine: number = 1,
+  lines: number = 200
+): Promise<{ output: string; startLine: number; endLine: number; hasMore: boolean } | { error: string }> {
+  if (!/^out-\d+-[0-9a-f]+$/.test(outputId)) {
+    return { error: `Invalid output ID: ${outputId}` };
+  }
+  const file = getOutputFile(owner, outputId, stream);
+  if (!fs.existsSync(file)) {
+    return { error: `No spilled ${stream} for ${outputId} (it may have expired or was not truncated)` };
   }
+
+  const selected: string[] = [];
+  let lineNumber = 0;
+  let hasMore = false;
+  const input = fs.createReadStream(file, 'utf8');
+  const reader = readline.createInterface({ input, crlfDelay: Infinity });
+  for await (const line of reader) {
+    lineNumber++;
+    if (lineNumber < startLine) continue;
+    if (selected.length === lines) {
+      hasMore = true;
+      break;
+    }
+    selected.push(line);
+  }
+  reader.close();
+  input.destroy();
+
+  return { output: selected.join('\n'), startLine, endLine: startLine + selected.length - 1, hasMore };
 }
@@ -4,20 +4,53 @@ import {
   getClient,
   createAuthCode,
   validateAuthCode,
-  createAccessToken,
-  validateAccessToken,
-  validatePin,
+  issueTokens,
+  exchangeRefreshToken,
+  getAccessToken,
+  revokeToken,
+  introspectToken,
+  listGrants,
+  revokeGrant,
+  revokeAllGrants,
+  ACCESS_TOKEN_TTL,
+  IssuedTokens,
+  validateLogin,
   getAuthorizePage,
+  AUTH_MODE,
+  totpSetup,
 } from './oauth.js';
-import { handleMcpRequest, MCP_PROTOCOL_VERSION } from './mcp.js';
+import { getOtpauthUri } from './totp.js';
+import { ALL_SCOPES, SUPPORTED_SCOPES, Scope, parseScopes, formatScopes, grantedScopes } from './scopes.js';
+import { checkPinAttempt, recordPinFailure, recordPinSuccess, resetPinLockout, getPinLockoutStatus } from './pin-guard.js';
+import { reconcileTasks, onTaskFinished } from './claude-code.js';
+import {
+  handleMcpRequest,
+  handleMcpNotification,
+  validateJsonRpcMessage,
+  negotiateProtocolVersion,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  McpContext,
+  MCP_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  DEFAULT_PROTOCOL_VERSION,
+  LogLevel,
+  shouldLog,
+} from './mcp.js';
+import { AccessToken } from './oauth-store.js';
+import { searchAudit } from './audit.js';
+import { openEventStream, openChannel, broadcast } from './sse.js';
+import { onJobFinished } from './jobs.js';
+import { McpSession, createSession, getSession, deleteSession } from './sessions.js';
+import { createClientRequestSender, isClientResponse, resolveClientResponse } from './client-requests.js';
+import { MULTI_USER, OWNER_USERNAME, findUser, getUserWorkspace } from './users.js';
 
 const app = express();
 
-// Trust proxy headers (for X-Forwarded-Proto, X-Forwarded-Host)
-app.set('trust proxy', true);
-
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+// Trust proxy headers (for X-Forwarded-Proto, X-Forwarded-Host and the client IP used for PIN backoff)
+// only from the configured proxies: a hop count, or a comma-separated list of addresses and subnets
+const TRUST_PROXY = process.env.TRUST_PROXY || '1';
+app.set('trust proxy', /^\d+$/.test(TRUST_PROXY) ? parseInt(TRUST_PROXY, 10) : TRUST_PROXY.split(',').map(entry => entry.trim()));
 
 const PORT = process.env.PORT || 4000;
 
@@ -32,14 +65,20 @@ function getBaseUrl(req: express.Request): string {
   return `${proto}://${host}`;
 }
 
+// Scopes to pre-tick on the consent screen: those requested, or all if none were
+function requestedScopes(scope: string | undefined): Scope[] {
+  const scopes = parseScopes(scope);
+  return scopes.length > 0 ? scopes : ALL_SCOPES;
+}
+
 // CORS middleware - allow Claude.ai
 app.use((req, res, next) => {
   const origin = req.get('Origin');
   if (origin) {
     res.set('Access-Control-Allow-Origin', origin);
     res.set('Access-Control-Allow-Credentials', 'true');
-    res.set('Access-Control-Allow-Methods', 'GET, POST, HEAD, OPTIONS');
-    res.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id');
+    res.set('Access-Control-Allow-Methods', 'GET, POST, DELETE, HEAD, OPTIONS');
+    res.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Last-Event-ID');
     res.set('Access-Control-Expose-Headers', 'Mcp-Session-Id, MCP-Protocol-Version');
   }
 
@@ -51,11 +90,35 @@ app.use((req, res, next) => {
   next();
 });
 
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+
+// Paths that take MCP messages, where errors must be JSON-RPC
+const MCP_PATHS = new Set(['/mcp', '/', '/.well-known/oauth-authorization-server']);
+
+// Malformed JSON bodies get a JSON-RPC parse error on MCP paths instead of express's HTML page
+app.use((error: Error & { type?: string }, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (error.type !== 'entity.parse.failed') return next(error);
+  if (MCP_PATHS.has(req.path)) {
+    return res.status(400).json({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+  }
+  res.status(400).json({ error: 'invalid_request', error_description: 'Request body is not valid JSON' });
+});
+
+// Body fields never written to the console
+const SECRET_FIELDS = new Set(['pin', 'totp', 'code', 'code_verifier', 'client_secret', 'refresh_token', 'token']);
+
 // Logging middleware
 app.use((req, res, next) => {
   console.log(`${new Date().toISOString()} ${req.method} ${req.path}`);
   if (req.method === 'POST') {
-    console.log(`  Body: ${JSON.stringify(req.body)}`);
+    const body =
+      req.body && typeof req.body === 'object' && !Array.isArray(req.body)
+        ? Object.fromEntries(
+            Object.entries(req.body).map(([key, value]) => [key, SECRET_FIELDS.has(key) ? '***' : value])
+          )
+        : req.body;
+    console.log(`  Body: ${JSON.stringify(body)}`);
     console.log(`  Auth: ${req.headers.authorization ? 'Bearer ***' : 'none'}`);
   }
   next();
@@ -73,10 +136,14 @@ app.get('/.well-known/oauth-authorization-server', (req, res) => {
     authorization_endpoint: `${baseUrl}/oauth/authorize`,
     token_endpoint: `${baseUrl}/oauth/token`,
     registration_endpoint: `${baseUrl}/oauth/register`,
+    revocation_endpoint: `${baseUrl}/oauth/revoke`,
+    introspection_endpoint: `${baseUrl}/oauth/introspect`,
     response_types_supported: ['code'],
-    grant_types_supported: ['authorization_code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
     code_challenge_methods_supported: ['S256', 'plain'],
+    scopes_supported: SUPPORTED_SCOPES,
     token_endpoint_auth_methods_supported: ['client_secret_post', 'none'],
+    revocation_endpoint_auth_methods_supported: ['client_secret_post', 'none'],
   });
 });
 
@@ -85,8 +152,7 @@ app.post('/.well-known/oauth-authorization-server', requireAuth, async (req, res
   const request = req.body;
   if (request.method && request.jsonrpc) {
     // It's an MCP request
-    const response = await handleMcpRequest(request);
-    return res.json(response);
+    return handleMcpPost(req, res);
   }
   // Not an MCP request, return error
   res.status(400).json({ error: 'invalid_request' });
@@ -99,7 +165,7 @@ app.get('/.well-known/oauth-protected-resource', (req, res) => {
     resource: baseUrl,
     authorization_servers: [baseUrl],
     bearer_methods_supported: ['header'],
-    scopes_supported: ['mcp'],
+    scopes_supported: SUPPORTED_SCOPES,
   });
 });
 
@@ -124,7 +190,7 @@ app.post('/oauth/register', (req, res) => {
 
 // Authorization endpoint - GET shows form
 app.get('/oauth/authorize', (req, res) => {
-  const { client_id, redirect_uri, state, code_challenge, code_challenge_method } = req.query;
+  const { client_id, redirect_uri, state, code_challenge, code_challenge_method, scope } = req.query;
 
   if (!client_id || !redirect_uri) {
     return res.status(400).send('Missing client_id or redirect_uri');
@@ -145,53 +211,191 @@ app.get('/oauth/authorize', (req, res) => {
       redirect_uri as string,
       state as string,
       code_challenge as string,
-      code_challenge_method as string
+      code_challenge_method as string,
+      requestedScopes(scope as string | undefined)
     )
   );
 });
 
 // Authorization endpoint - POST handles PIN submission
 app.post('/oauth/authorize', (req, res) => {
-  const { client_id, redirect_uri, state, code_challenge, code_challenge_method, pin } = req.body;
+  const { client_id, redirect_uri, state, code_challenge, code_challenge_method, username, pin, totp } = req.body;
+
+  // Failures are counted per client, so only registered clients and their redirect URIs get that far
+  const client = typeof client_id === 'string' ? getClient(client_id) : undefined;
+  if (!client) {
+    return res.status(400).send('Unknown client_id');
+  }
+  if (!client.redirect_uris.includes(redirect_uri)) {
+    return res.status(400).send('Invalid redirect_uri');
+  }
+
+  const ip = req.ip || 'unknown';
+  const scopes = parseScopes(req.body.scope);
+  const attemptedUser = typeof username === 'string' ? username.trim() : '';
+
+  const attempt = checkPinAttempt(ip, client_id, attemptedUser);
+  if (!attempt.allowed) {
+    console.warn(`${new Date().toISOString()} BLOCKED PIN attempt from ${ip} for client ${client_id}`);
+    if (attempt.retryAfterSeconds) res.set('Retry-After', String(attempt.retryAfterSeconds));
+    return res.status(429).send(
+      getAuthorizePage(client_id, redirect_uri, state, code_challenge, code_challenge_method, scopes, attempt.reason)
+    );
+  }
+
+  const user = validateLogin(username, pin, totp);
+  if (!user) {
+    recordPinFailure(ip, client_id, attemptedUser);
+    return res.send(
+      getAuthorizePage(client_id, redirect_uri, state, code_challenge, code_challenge_method, scopes, 'Invalid credentials')
+    );
+  }
+
+  recordPinSuccess(attemptedUser);
 
-  if (!validatePin(pin)) {
+  if (scopes.length === 0) {
     return res.send(
-      getAuthorizePage(client_id, redirect_uri, state, code_challenge, code_challenge_method, 'Invalid PIN')
+      getAuthorizePage(client_id, redirect_uri, state, code_challenge, code_challenge_method, scopes, 'Select at least one permission')
     );
   }
 
-  const code = createAuthCode(client_id, redirect_uri, code_challenge, code_challenge_method);
+  const code = createAuthCode(client_id, redirect_uri, code_challenge, code_challenge_method, formatScopes(scopes), user);
 
   const redirectUrl = new URL(redirect_uri);
   redirectUrl.searchParams.set('code', code);
   if (state) redirectUrl.searchParams.set('state', state);
 
-  console.log(`Auth code issued for client: ${client_id}`);
+  console.log(`Auth code issued for client: ${client_id} (user: ${user}, scope: ${formatScopes(scopes)})`);
   res.redirect(redirectUrl.toString());
 });
 
 // Token endpoint
 app.post('/oauth/token', (req, res) => {
-  const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body;
-
-  if (grant_type !== 'authorization_code') {
+  const { grant_type, code, redirect_uri, client_id, code_verifier, refresh_token } = req.body;
+
+  let tokens: IssuedTokens | undefined;
+
+  if (grant_type === 'authorization_code') {
+    const authCode = validateAuthCode(code, client_id, redirect_uri, code_verifier);
+    if (!authCode) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+    tokens = issueTokens(client_id, authCode.scope, authCode.user);
+    console.log(`Access token issued for client: ${client_id}`);
+  } else if (grant_type === 'refresh_token') {
+    tokens = exchangeRefreshToken(refresh_token, client_id);
+    if (!tokens) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+    console.log(`Access token refreshed for client: ${client_id}`);
+  } else {
     return res.status(400).json({ error: 'unsupported_grant_type' });
   }
 
-  if (!validateAuthCode(code, client_id, redirect_uri, code_verifier)) {
-    return res.status(400).json({ error: 'invalid_grant' });
-  }
-
-  const accessToken = createAccessToken(client_id);
-  console.log(`Access token issued for client: ${client_id}`);
-
+  res.set('Cache-Control', 'no-store');
   res.json({
-    access_token: accessToken,
+    access_token: tokens.accessToken,
     token_type: 'Bearer',
-    expires_in: 86400, // 24 hours
+    expires_in: ACCESS_TOKEN_TTL,
+    refresh_token: tokens.refreshToken,
+    scope: tokens.scope,
   });
 });
 
+// Token revocation (RFC 7009) - always 200, even for unknown tokens
+app.post('/oauth/revoke', (req, res) => {
+  const { token, token_type_hint, client_id } = req.body;
+
+  if (!token) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'token required' });
+  }
+
+  revokeToken(token, token_type_hint, client_id);
+  res.status(200).end();
+});
+
+// Token introspection (RFC 7662) - caller must hold a valid access token
+app.post('/oauth/introspect', requireAuth, (req, res) => {
+  const { token, token_type_hint } = req.body;
+
+  if (!token) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'token required' });
+  }
+
+  res.set('Cache-Control', 'no-store');
+  res.json(introspectToken(token, token_type_hint));
+});
+
+// Managing grants and the PIN lockout is account administration, so these routes need every scope
+
+// List active grants (one per signed-in device), optionally filtered by client_id
+app.get('/oauth/grants', requireAuth, requireScopes(...ALL_SCOPES), (req, res) => {
+  const currentGrant = res.locals.accessToken.grant_id;
+  const grants = listGrants(req.query.client_id as string | undefined, res.locals.user).map(grant => ({
+    ...grant,
+    current: grant.grant_id === currentGrant,
+  }));
+  res.json({ grants });
+});
+
+// Revoke one grant, all grants for a client, or all grants ("sign out all devices")
+app.post('/oauth/grants/revoke', requireAuth, requireScopes(...ALL_SCOPES), (req, res) => {
+  const { grant_id, client_id, all, keep_current } = req.body;
+  const exceptGrant = keep_current ? res.locals.accessToken.grant_id : undefined;
+
+  if (grant_id) {
+    // Users may only revoke their own grants
+    const owned = listGrants(undefined, res.locals.user).some(grant => grant.grant_id === grant_id);
+    const revoked = owned && revokeGrant(grant_id);
+    if (revoked) console.log(`Revoked grant: ${grant_id}`);
+    return res.json({ revoked: revoked ? 1 : 0 });
+  }
+
+  if (!client_id && all !== true) {
+    return res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'grant_id, client_id or all=true required',
+    });
+  }
+
+  const revoked = revokeAllGrants(client_id, exceptGrant, res.locals.user);
+  console.log(`Revoked ${revoked} grant(s) for ${client_id ? `client ${client_id}` : 'all clients'}`);
+  res.json({ revoked });
+});
+
+// PIN lockout status and reset (admin action for an already signed-in device)
+app.get('/oauth/lockout', requireAuth, requireScopes(...ALL_SCOPES), (req, res) => {
+  res.json(getPinLockoutStatus());
+});
+
+app.post('/oauth/lockout/reset', requireAuth, requireScopes(...ALL_SCOPES), (req, res) => {
+  // The lockout protects every account, so only the owner may lift it
+  if (res.locals.user !== OWNER_USERNAME) {
+    return res.status(403).json({ error: 'forbidden', error_description: 'Only the owner can reset the PIN lockout' });
+  }
+  resetPinLockout();
+  res.json(getPinLockoutStatus());
+});
+
+// ============================================
+// Audit log
+// ============================================
+
+// Search your own tool calls: ?q=&tool=&directory=&since=&until=&limit=. Needs 'read', like audit_search.
+app.get('/audit', requireAuth, requireScopes('read'), (req, res) => {
+  const param = (name: string) => (typeof req.query[name] === 'string' ? (req.query[name] as string) : undefined);
+  res.json(
+    searchAudit(res.locals.user, {
+      query: param('q'),
+      tool: param('tool'),
+      directory: param('directory'),
+      since: param('since'),
+      until: param('until'),
+      limit: parseInt(param('limit') || '', 10) || undefined,
+    })
+  );
+});
+
 // ============================================
 // MCP Endpoints (Streamable HTTP)
 // ============================================
@@ -209,11 +413,20 @@ app.head('/', (req, res) => {
 });
 
 // GET for server info
+// With Accept: text/event-stream, opens the standalone SSE channel for server-initiated messages
 app.get('/mcp', (req, res) => {
+  if ((req.headers.accept || '').includes('text/event-stream')) {
+    return requireAuth(req, res, () => {
+      const accessToken = res.locals.accessToken as AccessToken;
+      if (!requireSession(req, res) || !requireProtocolVersion(req, res)) return;
+      openChannel(res, res.locals.user, accessToken.grant_id, req.get('Last-Event-ID'));
+    });
+  }
   res.json({
     name: 'voice-mcp-server',
     version: '1.0.0',
     protocol_version: MCP_PROTOCOL_VERSION,
+    supported_protocol_versions: SUPPORTED_PROTOCOL_VERSIONS,
   });
 });
 
@@ -225,40 +438,244 @@ function requireAuth(req: express.Request, res: express.Response, next: express.
     return res.status(401).json({ error: 'unauthorized', error_description: 'Bearer token required' });
   }
 
-  const token = authHeader.slice(7);
-  if (!validateAccessToken(token)) {
+  const accessToken = getAccessToken(authHeader.slice(7));
+  if (!accessToken) {
     return res.status(401).json({ error: 'invalid_token', error_description: 'Token expired or invalid' });
   }
 
+  // Tokens issued before user accounts existed belong to the owner
+  const user = accessToken.user ?? OWNER_USERNAME;
+  if (MULTI_USER && !findUser(user)) {
+    return res.status(401).json({ error: 'invalid_token', error_description: 'Token is not bound to a known user' });
+  }
+
+  res.locals.accessToken = accessToken;
+  res.locals.user = user;
   next();
 }
 
+/**
+ * Middleware for routes behind requireAuth: the token must carry every one of these scopes
+ */
+function requireScopes(...scopes: Scope[]) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const granted = grantedScopes((res.locals.accessToken as AccessToken).scope);
+    const missing = scopes.filter(scope => !granted.includes(scope));
+    if (missing.length > 0) {
+      return res.status(403).json({
+        error: 'insufficient_scope',
+        error_description: `Requires the ${missing.map(scope => `'${scope}'`).join(', ')} ${missing.length > 1 ? 'scopes' : 'scope'}`,
+      });
+    }
+    next();
+  };
+}
+
+// Build the MCP request context from the token attached by requireAuth
+function getMcpContext(res: express.Response): McpContext {
+  const accessToken = res.locals.accessToken as AccessToken;
+  const user = res.locals.user as string;
+  return {
+    scopes: grantedScopes(accessToken.scope),
+    user,
+    workspace: getUserWorkspace(user),
+    grantId: accessToken.grant_id,
+    clientId: accessToken.client_id,
+    session: res.locals.session as McpSession | undefined,
+    protocolVersion: res.locals.protocolVersion as string,
+  };
+}
+
+/**
+ * Answer one JSON-RPC request. Tool calls from clients that accept text/event-stream get an
+ * SSE response, so progress, log messages and requests to the client (elicitation) can be
+ * sent before the final result.
+ */
+async function respondToMcpRequest(
+  req: express.Request,
+  res: express.Response,
+  request: JsonRpcRequest,
+  context: McpContext
+) {
+  const acceptsStream = (req.headers.accept || '').includes('text/event-stream');
+  if (!acceptsStream || request.method !== 'tools/call') {
+    const response = await handleMcpRequest(request, context);
+    // A cancelled request is acknowledged without a body, like a notification
+    return response ? res.json(response) : res.status(202).end();
+  }
+
+  // The stream is closed however the call ends, so the client is never left waiting on it
+  const stream = openEventStream(res);
+  try {
+    const response = await handleMcpRequest(request, {
+      ...context,
+      sendRequest: createClientRequestSender(clientRequest => stream.send(clientRequest)),
+      notify: (method, params) => stream.send({ jsonrpc: '2.0', method, params }),
+    });
+    if (response) stream.send(response);
+  } catch (error) {
+    stream.send({ jsonrpc: '2.0', id: request.id ?? null, error: { code: -32603, message: String(error) } });
+  } finally {
+    stream.close();
+  }
+}
+
+/**
+ * Resolve the request's Mcp-Session-Id. Requests without one are handled statelessly;
+ * an unknown or expired id gets 404 so the client starts a new session.
+ * Returns false if a response has already been sent.
+ */
+function requireSession(req: express.Request, res: express.Response): boolean {
+  const sessionId = req.get('Mcp-Session-Id');
+  if (!sessionId) return true;
+
+  const accessToken = res.locals.accessToken as AccessToken;
+  const session = getSession(sessionId, accessToken.grant_id);
+  if (!session) {
+    res.status(404).json({ jsonrpc: '2.0', id: null, error: { code: -32001, message: 'Session not found' } });
+    return false;
+  }
+  res.locals.session = session;
+  return true;
+}
+
+/**
+ * Check the MCP-Protocol-Version header clients send after initialize. It must be a version we
+ * support and, within a session, the one negotiated for it. Without the header the session's
+ * version applies, or 2025-03-26 for stateless requests. Returns false if a 400 has been sent.
+ */
+function requireProtocolVersion(req: express.Request, res: express.Response): boolean {
+  const session = res.locals.session as McpSession | undefined;
+  const version = req.get('MCP-Protocol-Version');
+  if (!version) {
+    res.locals.protocolVersion = session?.protocolVersion || DEFAULT_PROTOCOL_VERSION;
+    return true;
+  }
+
+  let message: string | undefined;
+  if (!SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+    message = `Unsupported MCP-Protocol-Version: ${version}. Supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`;
+  } else if (session && session.protocolVersion !== version) {
+    message = `MCP-Protocol-Version ${version} does not match ${session.protocolVersion}, negotiated for this session`;
+  }
+  if (message) {
+    res.status(400).json({ jsonrpc: '2.0', id: null, error: { code: -32600, message } });
+    return false;
+  }
+  res.locals.protocolVersion = version;
+  return true;
+}
+
+// One message of a batch: route client responses, reject malformed messages, run
+// notifications, and answer requests. Undefined when there is nothing to send back.
+async function handleBatchMessage(message: unknown, context: McpContext): Promise<JsonRpcResponse | undefined> {
+  if (isClientResponse(message)) {
+    resolveClientResponse(message);
+    return undefined;
+  }
+  const invalid = validateJsonRpcMessage(message);
+  if (invalid) return invalid;
+
+  const request = message as JsonRpcRequest;
+  if (request.id === undefined) {
+    handleMcpNotification(request, context);
+    return undefined;
+  }
+  return handleMcpRequest(request, context);
+}
+
 // POST for MCP requests
-app.post('/mcp', requireAuth, async (req, res) => {
-  const request = req.body;
+async function handleMcpPost(req: express.Request, res: express.Response) {
+  const body = req.body;
+  if (!requireSession(req, res)) return;
+  // initialize negotiates the version; everything after it is checked against the header
+  if (body?.method === 'initialize') {
+    res.locals.protocolVersion = negotiateProtocolVersion(body.params?.protocolVersion);
+  } else if (!requireProtocolVersion(req, res)) {
+    return;
+  }
+  const context = getMcpContext(res);
+
+  // Handle batches; only requests get a response, so a batch of notifications gets none
+  if (Array.isArray(body)) {
+    if (body.length === 0) {
+      return res
+        .status(400)
+        .json({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request: empty batch' } });
+    }
+    const responses = await Promise.all(body.map(message => handleBatchMessage(message, context)));
+    const answers = responses.filter(response => response !== undefined);
+    return answers.length > 0 ? res.json(answers) : res.status(202).end();
+  }
+
+  // Responses to requests we sent the client (e.g. elicitation answers)
+  if (isClientResponse(body)) {
+    resolveClientResponse(body);
+    return res.status(202).end();
+  }
 
-  // Handle single request
-  if (!Array.isArray(request)) {
-    const response = await handleMcpRequest(request);
-    return res.json(response);
+  const invalid = validateJsonRpcMessage(body);
+  if (invalid) {
+    return res.status(400).json(invalid);
   }
 
-  // Handle batch requests
-  const responses = await Promise.all(request.map(handleMcpRequest));
-  res.json(responses);
+  // Notifications are acknowledged without a body
+  if (body.id === undefined) {
+    handleMcpNotification(body, context);
+    return res.status(202).end();
+  }
+
+  // initialize starts a new session; its id comes back in the Mcp-Session-Id header
+  if (body.method === 'initialize') {
+    context.session = createSession(context.grantId, context.user, context.protocolVersion);
+    res.set('Mcp-Session-Id', context.session.sessionId);
+  }
+
+  return respondToMcpRequest(req, res, body, context);
+}
+
+app.post('/mcp', requireAuth, handleMcpPost);
+
+// End a session
+app.delete('/mcp', requireAuth, (req, res) => {
+  const sessionId = req.get('Mcp-Session-Id');
+  if (!sessionId) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'Mcp-Session-Id header required' });
+  }
+  const accessToken = res.locals.accessToken as AccessToken;
+  if (!deleteSession(sessionId, accessToken.grant_id)) {
+    return res.status(404).json({ jsonrpc: '2.0', id: null, error: { code: -32001, message: 'Session not found' } });
+  }
+  res.status(204).end();
 });
 
 // Also support POST on root for MCP
-app.post('/', requireAuth, async (req, res) => {
-  const request = req.body;
+app.post('/', requireAuth, handleMcpPost);
 
-  if (!Array.isArray(request)) {
-    const response = await handleMcpRequest(request);
-    return res.json(response);
-  }
+// Tell a user's open GET channels when background work finishes
+function broadcastLog(user: string, level: LogLevel, logger: string, data: unknown) {
+  broadcast(user, { jsonrpc: '2.0', method: 'notifications/message', params: { level, logger, data } }, grantId =>
+    shouldLog(grantId, level)
+  );
+}
+
+onTaskFinished(task => {
+  broadcastLog(task.startedBy, task.status === 'failed' ? 'error' : 'info', 'claude-code', {
+    message: `Claude Code task ${task.taskId} ${task.status}`,
+    taskId: task.taskId,
+    status: task.status,
+    finalAnswer: task.progress?.finalAnswer,
+  });
+});
 
-  const responses = await Promise.all(request.map(handleMcpRequest));
-  res.json(responses);
+onJobFinished(job => {
+  broadcastLog(job.startedBy, job.status === 'failed' ? 'error' : 'info', 'jobs', {
+    message: `Job ${job.jobId} ${job.status}${job.exitCode !== undefined ? ` with exit code ${job.exitCode}` : ''}`,
+    jobId: job.jobId,
+    command: job.command,
+    status: job.status,
+    exitCode: job.exitCode,
+  });
 });
 
 // ============================================
@@ -285,11 +702,24 @@ app.get('/', (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Voice MCP Server running on port ${PORT}`);
-  console.log(`MCP Protocol Version: ${MCP_PROTOCOL_VERSION}`);
-  console.log(`PIN: ${process.env.MCP_PIN ? '(set via MCP_PIN env var)' : 'changeme (default - please set MCP_PIN!)'}`);
+  console.log(`MCP Protocol Versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`);
+  console.log(`Auth mode: ${AUTH_MODE}${MULTI_USER ? ' (multi-user)' : ''}`);
+  if (AUTH_MODE !== 'totp' && !MULTI_USER) {
+    console.log(`PIN: ${process.env.MCP_PIN ? '(set via MCP_PIN env var)' : 'changeme (default - please set MCP_PIN!)'}`);
+  }
+  if (totpSetup?.created) {
+    console.log('TOTP secret generated. Add it to your authenticator app:');
+    console.log(`  ${getOtpauthUri(totpSetup.secret)}`);
+  }
   console.log('');
   console.log('Endpoints:');
   console.log(`  OAuth metadata: /.well-known/oauth-authorization-server`);
   console.log(`  MCP endpoint:   /mcp`);
   console.log(`  Health check:   /health`);
+
+  reconcileTasks().then(({ adopted, finished, orphans }) => {
+    if (adopted.length) console.log(`Re-adopted running Claude Code tasks: ${adopted.join(', ')}`);
+    if (finished.length) console.log(`Marked ended Claude Code tasks as finished: ${finished.join(', ')}`);
+    if (orphans.length) console.warn(`Orphan claude-* tmux sessions not in the task registry: ${orphans.join(', ')}`);
+  });
 });
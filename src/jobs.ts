@@ -0,0 +1,286 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { spawn, ChildProcess } from 'child_process';
+import { dataPath, readJsonFile, writeJsonFile, readFileTail, readNewLines } from './persist.js';
+import { decodeCursor, encodeCursor } from './cursors.js';
+
+// Finished jobs kept (with their output) before the oldest are pruned
+const MAX_FINISHED_JOBS = parseInt(process.env.MAX_FINISHED_JOBS || '', 10) || 50;
+
+// Job states. 'interrupted' means the server restarted and lost track of the job's exit status.
+export type JobStatus = 'running' | 'completed' | 'failed' | 'killed' | 'interrupted';
+
+export interface BackgroundJob {
+  jobId: string;
+  command: string;
+  cwd: string;
+  status: JobStatus;
+  pid?: number;
+  startTime: number;
+  endTime?: number;
+  exitCode?: number;
+  signal?: string; // Signal that ended the job, if any
+  startedBy: string; // Username that started the job
+  killRequested?: boolean;
+}
+
+// Job registry, persisted so job records and output survive server restarts
+const JOBS_FILE = dataPath('jobs.json');
+const jobs = new Map<string, BackgroundJob>(Object.entries(readJsonFile<Record<string, BackgroundJob>>(JOBS_FILE, {})));
+
+// Jobs left running by an earlier server run are no longer ours to track: their exit code is lost,
+// and their pid may since have been reused by an unrelated process, so they are never signalled
+const orphanedJobs = Array.from(jobs.values()).filter(job => job.status === 'running');
+for (const job of orphanedJobs) {
+  job.status = job.killRequested ? 'killed' : 'interrupted';
+  job.endTime = Date.now();
+}
+if (orphanedJobs.length > 0) saveJobs();
+
+// Child processes started by this server run, for stdin and exit tracking
+const processes = new Map<string, ChildProcess>();
+
+// Listeners told when a job started by this server run exits
+const finishListeners: Array<(job: BackgroundJob) => void> = [];
+
+export function onJobFinished(listener: (job: BackgroundJob) => void): void {
+  finishListeners.push(listener);
+}
+
+function saveJobs(): void {
+  writeJsonFile(JOBS_FILE, Object.fromEntries(jobs));
+}
+
+function generateJobId(): string {
+  return `job-${Date.now()}-${crypto.randomBytes(2).toString('hex')}`;
+}
+
+// Combined stdout/stderr of a job, kept after it ends
+function getJobLogFile(jobId: string): string {
+  return dataPath('jobs', `${jobId}.log`);
+}
+
+// Look up a job, hiding jobs that belong to other users
+function getJob(jobId: string, user: string): BackgroundJob | undefined {
+  const job = jobs.get(jobId);
+  return job && job.startedBy === user ? job : undefined;
+}
+
+// Drop the oldest finished jobs and their output beyond the retention limit
+function pruneJobs(): void {
+  const finished = Array.from(jobs.values())
+    .filter(job => job.status !== 'running')
+    .sort((a, b) => (b.endTime || b.startTime) - (a.endTime || a.startTime));
+
+  for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+    jobs.delete(job.jobId);
+    fs.rmSync(getJobLogFile(job.jobId), { force: true });
+  }
+}
+
+function describeJob(job: BackgroundJob) {
+  let outputBytes = 0;
+  try {
+    outputBytes = fs.statSync(getJobLogFile(job.jobId)).size;
+  } catch {
+    // No output yet
+  }
+
+  return {
+    jobId: job.jobId,
+    command: job.command,
+    cwd: job.cwd,
+    status: job.status,
+    exitCode: job.exitCode,
+    signal: job.signal,
+    startTime: new Date(job.startTime).toISOString(),
+    endTime: job.endTime ? new Date(job.endTime).toISOString() : undefined,
+    durationSeconds: Math.round(((job.endTime || Date.now()) - job.startTime) / 1000),
+    outputBytes,
+    acceptsInput: processes.has(job.jobId),
+  };
+}
+
+/**
+ * Start a shell command in the background and return its job id immediately
+ */
+export function startJob(
+  command: string,
+  cwd: string | undefined,
+  user: string,
+  options: { env?: Record<string, string>; stdin?: string } = {}
+): { jobId: string; status: JobStatus; pid?: number } | { error: string } {
+  // spawn would report a missing cwd as the shell itself being missing
+  if (cwd && !fs.existsSync(cwd)) {
+    return { error: `Working directory not found: ${cwd}` };
+  }
+
+  const job: BackgroundJob = {
+    jobId: generateJobId(),
+    command,
+    cwd: cwd || process.env.HOME || '/',
+    status: 'running',
+    startTime: Date.now(),
+    startedBy: user,
+  };
+
+  // Output goes straight to the log file, so it is captured even if the server restarts
+  const logFd = fs.openSync(getJobLogFile(job.jobId), 'a', 0o600);
+  // Its own process group, so killing the job also kills anything it spawned
+  const child = spawn('/bin/bash', ['-c', command], {
+    cwd: job.cwd,
+    env: { ...process.env, ...options.env },
+    stdio: ['pipe', logFd, logFd],
+    detached: true,
+  });
+  fs.closeSync(logFd);
+
+  job.pid = child.pid;
+  processes.set(job.jobId, child);
+  child.stdin?.on('error', () => {
+    // The job exited or closed its stdin
+  });
+  if (options.stdin) {
+    // Initial input; stdin stays open for send_job_input
+    child.stdin?.write(options.stdin);
+  }
+
+  child.on('error', error => {
+    fs.appendFileSync(getJobLogFile(job.jobId), `${error.message}\n`);
+  });
+  child.on('close', (code, signal) => {
+    processes.delete(job.jobId);
+    job.exitCode = code ?? undefined;
+    job.signal = signal ?? undefined;
+    job.status = job.killRequested ? 'killed' : code === 0 ? 'completed' : 'failed';
+    job.endTime = Date.now();
+    saveJobs();
+    for (const listener of finishListeners) listener(job);
+  });
+
+  jobs.set(job.jobId, job);
+  pruneJobs();
+  saveJobs();
+
+  return { jobId: job.jobId, status: job.status, pid: job.pid };
+}
+
+/**
+ * Get a job's status and exit code
+ */
+export function getJobStatus(jobId: string, user: string): ReturnType<typeof describeJob> | { error: string } {
+  const job = getJob(jobId, user);
+  if (!job) {
+    return { error: `Job not found: ${jobId}` };
+  }
+  return describeJob(job);
+}
+
+/**
+ * Read a job's output: the last `lines` lines, or only what was written since a cursor
+ */
+export function getJobOutput(
+  jobId: string,
+  user: string,
+  lines: number = 200,
+  cursorValue?: string
+): { output: string; status: JobStatus; exitCode?: number; cursor: string; truncated?: boolean } | { error: string } {
+  const job = getJob(jobId, user);
+  if (!job) {
+    return { error: `Job not found: ${jobId}` };
+  }
+
+  const logFile = getJobLogFile(jobId);
+  let output: string;
+  let offset: number;
+  let truncated: boolean | undefined;
+
+  if (cursorValue) {
+    const cursor = decodeCursor(cursorValue);
+    if (!cursor || cursor.kind !== 'job' || cursor.jobId !== jobId) {
+      return { error: 'Invalid cursor for this job' };
+    }
+    const read = readNewLines(logFile, cursor.offset);
+    const newLines = read.text.replace(/\n$/, '').split('\n').filter(Boolean);
+    output = newLines.slice(-lines).join('\n');
+    offset = read.offset;
+    truncated = newLines.length > lines || undefined;
+  } else {
+    output = readFileTail(logFile, lines) || '';
+    try {
+      offset = fs.statSync(logFile).size;
+    } catch {
+      offset = 0;
+    }
+  }
+
+  return {
+    output: output || (cursorValue ? '(no new output)' : '(no output)'),
+    status: job.status,
+    exitCode: job.exitCode,
+    cursor: encodeCursor({ kind: 'job', jobId, offset }),
+    truncated,
+  };
+}
+
+/**
+ * Write to a running job's stdin
+ */
+export function sendJobInput(
+  jobId: string,
+  input: string,
+  user: string,
+  options: { newline?: boolean; closeStdin?: boolean } = {}
+): { sent: boolean; error?: string } {
+  const job = getJob(jobId, user);
+  if (!job) {
+    return { sent: false, error: `Job not found: ${jobId}` };
+  }
+
+  const child = processes.get(jobId);
+  if (!child || !child.stdin || child.stdin.destroyed) {
+    return { sent: false, error: `Job ${jobId} is not accepting input (status: ${job.status})` };
+  }
+
+  const newline = options.newline ?? true;
+  child.stdin.write(newline ? `${input}\n` : input);
+  if (options.closeStdin) {
+    child.stdin.end();
+  }
+  return { sent: true };
+}
+
+/**
+ * Send a signal to a running job's process group
+ */
+export function killJob(jobId: string, user: string, signal: string = 'SIGTERM'): { killed: boolean; error?: string } {
+  const job = getJob(jobId, user);
+  if (!job) {
+    return { killed: false, error: `Job not found: ${jobId}` };
+  }
+  // Only processes this server run spawned are signalled
+  const child = processes.get(jobId);
+  if (!child?.pid) {
+    return { killed: false, error: `Job is not running (status: ${job.status})` };
+  }
+
+  try {
+    process.kill(-child.pid, signal as NodeJS.Signals);
+  } catch (error: unknown) {
+    return { killed: false, error: `Failed to send ${signal}: ${error}` };
+  }
+
+  job.killRequested = true;
+  saveJobs();
+  return { killed: true };
+}
+
+/**
+ * List a user's jobs, newest first
+ */
+export function listJobs(user: string): { jobs: Array<ReturnType<typeof describeJob>> } {
+  const userJobs = Array.from(jobs.values())
+    .filter(job => job.startedBy === user)
+    .sort((a, b) => b.startTime - a.startTime);
+  return { jobs: userJobs.map(describeJob) };
+}
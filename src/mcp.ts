@@ -1,31 +1,79 @@
-import { executeCommand } from './execute.js';
+import path from 'path';
+import { executeCommand, readCommandOutput } from './execute.js';
 import {
   startClaudeCodeTask,
   getClaudeCodeStatus,
   getClaudeCodeOutput,
+  waitForClaudeCode,
   sendToClaudeCode,
+  continueClaudeCodeTask,
+  getTaskWorkingDirectory,
   listClaudeCodeSessions,
   stopClaudeCodeTask,
+  reviewClaudeCodeChanges,
+  mergeClaudeCodeChanges,
+  discardClaudeCodeChanges,
 } from './claude-code.js';
+import { getDefaultCursor, setDefaultCursor } from './cursors.js';
+import { startJob, getJobStatus, getJobOutput, sendJobInput, killJob, listJobs } from './jobs.js';
+import { Scope } from './scopes.js';
+import { capturePane, getPaneDirectory, isValidSessionName, runTmux } from './tmux.js';
+import { PolicyTool, evaluatePolicy } from './policy.js';
+import { SendClientRequest } from './client-requests.js';
+import { recordToolCall, searchAudit } from './audit.js';
+import { McpSession } from './sessions.js';
+import { issueConfirmationToken, consumeConfirmationToken } from './confirmations.js';
+import { isWithinWorkspace } from './users.js';
+import { JsonSchema, validateSchema } from './schema.js';
 
-// MCP Protocol version
-export const MCP_PROTOCOL_VERSION = '2025-06-18';
+// MCP protocol versions we speak, newest first. initialize agrees on one of these.
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const MCP_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
 
-// JSON-RPC types
-interface JsonRpcRequest {
+// Version assumed for requests without an MCP-Protocol-Version header or a session, as the spec requires
+export const DEFAULT_PROTOCOL_VERSION = '2025-03-26';
+
+// Tool outputSchema and structuredContent arrived in 2025-06-18, annotations in 2025-03-26
+const STRUCTURED_OUTPUT_VERSION = '2025-06-18';
+const TOOL_ANNOTATIONS_VERSION = '2025-03-26';
+
+/**
+ * Pick the protocol version for initialize: the client's if we support it, otherwise our latest
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(requested as string) ? (requested as string) : MCP_PROTOCOL_VERSION;
+}
+
+// JSON-RPC types. Messages without an id are notifications and get no response.
+export interface JsonRpcRequest {
   jsonrpc: '2.0';
-  id: string | number;
+  id?: string | number;
   method: string;
   params?: Record<string, unknown>;
 }
 
-interface JsonRpcResponse {
+export interface JsonRpcResponse {
   jsonrpc: '2.0';
-  id: string | number;
+  id: string | number | null; // null when the request's id could not be read
   result?: unknown;
   error?: { code: number; message: string; data?: unknown };
 }
 
+// Per-request context derived from the caller's access token
+export interface McpContext {
+  scopes: Scope[];
+  user: string;
+  workspace?: string; // Root directory the user is confined to, if any
+  grantId: string; // Authorization grant, stable across token refreshes; keys per-token state
+  clientId: string;
+  sendRequest?: SendClientRequest; // Set when the transport can carry server-to-client requests for this call
+  notify?: (method: string, params: Record<string, unknown>) => void; // Same, for notifications
+  reportProgress?: (message: string) => void; // Set for tool calls made with a progressToken
+  session?: McpSession; // Set when the request carries a valid Mcp-Session-Id (or is initialize)
+  signal?: AbortSignal; // Aborted when the client sends notifications/cancelled for this call
+  protocolVersion: string; // Negotiated for the session, or from the MCP-Protocol-Version header
+}
+
 // MCP Server Info
 const SERVER_INFO = {
   name: 'voice-mcp-server',
@@ -34,10 +82,94 @@ const SERVER_INFO = {
 
 const SERVER_CAPABILITIES = {
   tools: {},
+  logging: {},
+};
+
+// Capabilities each grant's client declared in initialize, for requests made without a session
+const clientCapabilities = new Map<string, Record<string, unknown>>();
+
+function getClientCapabilities(context: McpContext): Record<string, unknown> | undefined {
+  return context.session?.clientCapabilities || clientCapabilities.get(context.grantId);
+}
+
+// Syslog severities used by notifications/message, least severe first
+const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// Minimum level each grant's client asked for with logging/setLevel
+const logLevels = new Map<string, LogLevel>();
+
+/**
+ * Whether a grant's client wants log messages at this level (default: info and above)
+ */
+export function shouldLog(grantId: string, level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(logLevels.get(grantId) || 'info');
+}
+
+// Send a notifications/message to the client on the current call's stream, if it has one
+function logToClient(context: McpContext, level: LogLevel, logger: string, data: unknown): void {
+  if (context.notify && shouldLog(context.grantId, level)) {
+    context.notify('notifications/message', { level, logger, data });
+  }
+}
+
+// Output schemas describe each tool's structuredContent. Optional fields are left out when they don't apply.
+const JOB_SCHEMA = {
+  type: 'object',
+  properties: {
+    jobId: { type: 'string' },
+    command: { type: 'string' },
+    cwd: { type: 'string' },
+    status: { type: 'string', enum: ['running', 'completed', 'failed', 'killed', 'interrupted'] },
+    exitCode: { type: 'number' },
+    signal: { type: 'string', description: 'Signal that ended the job, if any' },
+    startTime: { type: 'string', description: 'ISO 8601' },
+    endTime: { type: 'string', description: 'ISO 8601' },
+    durationSeconds: { type: 'number' },
+    outputBytes: { type: 'number' },
+    acceptsInput: { type: 'boolean', description: 'Whether send_job_input can still write to its stdin' },
+  },
+  required: ['jobId', 'command', 'status', 'startTime', 'durationSeconds', 'outputBytes', 'acceptsInput'],
+};
+
+const TASK_STATUS_SCHEMA = { type: 'string', enum: ['queued', 'running', 'completed', 'failed', 'stopped'] };
+
+// Starting and continuing a Claude Code task
+const START_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    taskId: { type: 'string' },
+    status: TASK_STATUS_SCHEMA,
+    output: { type: 'string', description: 'Final output, or a note that it is still running, when waiting for completion' },
+    parentTaskId: { type: 'string' },
+    branch: { type: 'string', description: 'Worktree branch of an isolated task' },
+    queuePosition: { type: 'number' },
+  },
+  required: ['taskId', 'status'],
 };
 
+// Actions that report whether they happened, e.g. { sent: false, error: "..." }
+function actionResultSchema(flag: string) {
+  return {
+    type: 'object',
+    properties: {
+      [flag]: { type: 'boolean' },
+      error: { type: 'string', description: 'Why it did not happen' },
+    },
+    required: [flag],
+  };
+}
+
 // Tool definitions
-const TOOLS = [
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  outputSchema: JsonSchema;
+  annotations: { title: string; readOnlyHint: boolean; destructiveHint: boolean };
+}
+
+const TOOLS: ToolDefinition[] = [
   {
     name: 'execute_command',
     description: 'Execute a shell command on the VM and return the output. Use this to run any command like git, npm, ls, cat, etc.',
@@ -46,15 +178,64 @@ const TOOLS = [
       properties: {
         command: {
           type: 'string',
+          minLength: 1,
           description: 'The shell command to execute',
         },
         cwd: {
           type: 'string',
-          description: 'Working directory for the command (optional, defaults to home)',
+          description: 'Working directory for the command (optional, defaults to your workspace or home)',
+        },
+        background: {
+          type: 'boolean',
+          default: false,
+          description: 'If true, run as a background job and return its job ID immediately instead of waiting (default: false). Use for builds, test suites and deploys.',
+        },
+        timeoutSeconds: {
+          type: 'number',
+          minimum: 1,
+          maximum: 600,
+          default: 60,
+          description: 'Kill the command if it runs longer than this (default: 60, max: 600; ignored for background jobs)',
+        },
+        maxOutputBytes: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 10 * 1024 * 1024,
+          description: 'Output kept per stream before the middle is omitted (default: 1 MB, max: 10 MB). The full output can be read with read_command_output.',
+        },
+        env: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Extra environment variables for the command',
+        },
+        stdin: {
+          type: 'string',
+          description: 'Text to pass to the command on stdin',
+        },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from a previous "needs confirmation" response, passed back after the user has confirmed',
         },
       },
       required: ['command'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      description: 'The command result, or jobId, status and pid of the started job when background is true',
+      properties: {
+        stdout: { type: 'string' },
+        stderr: { type: 'string' },
+        exitCode: { type: 'number' },
+        timedOut: { type: 'boolean' },
+        truncated: { type: 'boolean', description: 'The middle of the output was omitted' },
+        outputId: { type: 'string', description: 'For read_command_output, when output was truncated' },
+        jobId: { type: 'string' },
+        status: JOB_SCHEMA.properties.status,
+        pid: { type: 'number' },
+      },
     },
+    annotations: { title: 'Run shell command', readOnlyHint: false, destructiveHint: true },
   },
   {
     name: 'tmux_send',
@@ -68,15 +249,23 @@ const TOOLS = [
         },
         keys: {
           type: 'string',
+          minLength: 1,
           description: 'Keys/text to send to the tmux session',
         },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from a previous "needs confirmation" response, passed back after the user has confirmed',
+        },
       },
       required: ['keys'],
+      additionalProperties: false,
     },
+    outputSchema: actionResultSchema('sent'),
+    annotations: { title: 'Type into tmux', readOnlyHint: false, destructiveHint: true },
   },
   {
     name: 'tmux_capture',
-    description: 'Capture the current output from a tmux pane.',
+    description: 'Capture the current output from a tmux pane. Returns a cursor that can be passed back to get only new output.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -85,71 +274,411 @@ const TOOLS = [
           description: 'tmux session name (optional, uses default if not specified)',
         },
         lines: {
-          type: 'number',
-          description: 'Number of lines to capture (default 50)',
+          type: 'integer',
+          minimum: 1,
+          default: 50,
+          description: 'Number of lines to capture, or the most new lines to return with a cursor (default 50)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Cursor from a previous response; only output produced since then is returned',
+        },
+        sinceLastCheck: {
+          type: 'boolean',
+          default: false,
+          description: 'If true, return only output produced since your last call for this session (default: false)',
+        },
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        output: { type: 'string' },
+        cursor: { type: 'string', description: 'Pass back to get only newer output' },
+        truncated: { type: 'boolean', description: 'Older new lines were omitted' },
+        error: { type: 'string' },
+      },
+      required: ['output'],
+    },
+    annotations: { title: 'Read tmux pane', readOnlyHint: true, destructiveHint: false },
+  },
+  {
+    name: 'read_command_output',
+    description: 'Read lines from the full output of an execute_command call whose output was truncated.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        outputId: {
+          type: 'string',
+          minLength: 1,
+          description: 'The outputId reported with the truncated output',
+        },
+        stream: {
+          type: 'string',
+          default: 'stdout',
+          enum: ['stdout', 'stderr'],
+          description: 'Which stream to read (default: stdout)',
+        },
+        startLine: {
+          type: 'integer',
+          minimum: 1,
+          default: 1,
+          description: 'First line to return, starting at 1 (default: 1)',
+        },
+        lines: {
+          type: 'integer',
+          minimum: 1,
+          default: 200,
+          description: 'Number of lines to return (default: 200)',
+        },
+      },
+      required: ['outputId'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        output: { type: 'string' },
+        startLine: { type: 'number' },
+        endLine: { type: 'number' },
+        hasMore: { type: 'boolean' },
+      },
+      required: ['output', 'startLine', 'endLine', 'hasMore'],
+    },
+    annotations: { title: 'Read full command output', readOnlyHint: true, destructiveHint: false },
+  },
+  // Background job tools
+  {
+    name: 'get_job_status',
+    description: 'Check whether a background job from execute_command is still running, and its exit code.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobId: {
+          type: 'string',
+          minLength: 1,
+          description: 'The job ID returned from execute_command',
+        },
+      },
+      required: ['jobId'],
+      additionalProperties: false,
+    },
+    outputSchema: JOB_SCHEMA,
+    annotations: { title: 'Job status', readOnlyHint: true, destructiveHint: false },
+  },
+  {
+    name: 'get_job_output',
+    description: 'Read the output (stdout and stderr) of a background job, or only new output since a cursor.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobId: {
+          type: 'string',
+          minLength: 1,
+          description: 'The job ID returned from execute_command',
+        },
+        lines: {
+          type: 'integer',
+          minimum: 1,
+          default: 200,
+          description: 'Number of lines to retrieve (default: 200)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Cursor from a previous response; only output produced since then is returned',
+        },
+        sinceLastCheck: {
+          type: 'boolean',
+          default: false,
+          description: 'If true, return only output produced since your last call for this job (default: false)',
+        },
+      },
+      required: ['jobId'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        output: { type: 'string' },
+        status: JOB_SCHEMA.properties.status,
+        exitCode: { type: 'number' },
+        cursor: { type: 'string', description: 'Pass back to get only newer output' },
+        truncated: { type: 'boolean', description: 'Older new lines were omitted' },
+      },
+      required: ['output', 'status', 'cursor'],
+    },
+    annotations: { title: 'Job output', readOnlyHint: true, destructiveHint: false },
+  },
+  {
+    name: 'send_job_input',
+    description: "Write text to a running background job's stdin.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobId: {
+          type: 'string',
+          minLength: 1,
+          description: 'The job ID returned from execute_command',
+        },
+        input: {
+          type: 'string',
+          description: 'Text to send',
+        },
+        newline: {
+          type: 'boolean',
+          default: true,
+          description: 'Append a newline after the input (default: true)',
+        },
+        closeStdin: {
+          type: 'boolean',
+          default: false,
+          description: 'Close stdin after sending, signalling end of input (default: false)',
+        },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from a previous "needs confirmation" response, passed back after the user has confirmed',
+        },
+      },
+      required: ['jobId', 'input'],
+      additionalProperties: false,
+    },
+    outputSchema: actionResultSchema('sent'),
+    annotations: { title: 'Send input to job', readOnlyHint: false, destructiveHint: false },
+  },
+  {
+    name: 'kill_job',
+    description: 'Stop a running background job and any processes it started.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobId: {
+          type: 'string',
+          minLength: 1,
+          description: 'The job ID returned from execute_command',
+        },
+        signal: {
+          type: 'string',
+          default: 'SIGTERM',
+          description: 'Signal to send (default: SIGTERM; use SIGKILL if the job ignores it)',
+        },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from a previous "needs confirmation" response, passed back after the user has confirmed',
         },
       },
+      required: ['jobId'],
+      additionalProperties: false,
+    },
+    outputSchema: actionResultSchema('killed'),
+    annotations: { title: 'Kill job', readOnlyHint: false, destructiveHint: true },
+  },
+  {
+    name: 'list_jobs',
+    description: 'List your background jobs, newest first, with their status.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
       required: [],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        jobs: { type: 'array', items: JOB_SCHEMA },
+      },
+      required: ['jobs'],
     },
+    annotations: { title: 'List jobs', readOnlyHint: true, destructiveHint: false },
   },
   // Claude Code management tools
   {
     name: 'start_claude_code_task',
-    description: 'Start a Claude Code task to perform coding work autonomously. Claude Code will run in its own tmux session.',
+    description: 'Start a Claude Code task to perform coding work autonomously. Claude Code will run in its own tmux session, or be queued if too many tasks are already running.',
     inputSchema: {
       type: 'object',
       properties: {
         prompt: {
           type: 'string',
+          minLength: 1,
           description: 'The task/prompt for Claude Code to execute',
         },
         workingDirectory: {
           type: 'string',
+          minLength: 1,
           description: 'Working directory where Claude Code should run',
         },
         waitForCompletion: {
           type: 'boolean',
+          default: false,
           description: 'If true, wait for task to complete before returning (default: false)',
         },
         timeoutSeconds: {
           type: 'number',
-          description: 'Maximum time to wait if waitForCompletion is true (default: 300)',
+          minimum: 1,
+          maximum: 600,
+          default: 300,
+          description: 'Maximum time to wait if waitForCompletion is true (default: 300, max: 600)',
+        },
+        isolated: {
+          type: 'boolean',
+          default: false,
+          description: 'If true, run in a new git worktree on its own branch so the main checkout is untouched (default: false)',
+        },
+        priority: {
+          type: 'integer',
+          default: 0,
+          description: 'Queue priority when the concurrency limit is reached; higher starts first (default: 0)',
+        },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from a previous "needs confirmation" response, passed back after the user has confirmed',
         },
       },
       required: ['prompt', 'workingDirectory'],
+      additionalProperties: false,
     },
+    outputSchema: START_RESULT_SCHEMA,
+    annotations: { title: 'Start Claude Code task', readOnlyHint: false, destructiveHint: false },
   },
   {
     name: 'get_claude_code_status',
-    description: 'Check the status and progress of a Claude Code task.',
+    description: 'Check the status and progress of a Claude Code task. Returns a cursor that can be passed back to get only new output.',
     inputSchema: {
       type: 'object',
       properties: {
         taskId: {
           type: 'string',
-          description: 'The task ID returned from start_claude_code_task',
+          description: 'The task ID returned from start_claude_code_task (default: the last task started in this session)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Cursor from a previous response; only output produced since then is returned',
+        },
+        sinceLastCheck: {
+          type: 'boolean',
+          default: false,
+          description: 'If true, return only output produced since your last call for this task (default: false)',
         },
       },
-      required: ['taskId'],
+      required: [],
+      additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        status: TASK_STATUS_SCHEMA,
+        runtimeSeconds: { type: 'number' },
+        currentStep: { type: 'string' },
+        recentSteps: { type: 'array', items: { type: 'string' } },
+        filesTouched: { type: 'array', items: { type: 'string' } },
+        finalAnswer: { type: 'string' },
+        lastError: { type: 'string' },
+        costUsd: { type: 'number' },
+        sessionId: { type: 'string', description: 'Claude conversation id' },
+        parentTaskId: { type: 'string' },
+        queuePosition: { type: 'number' },
+        lastOutput: { type: 'string' },
+        cursor: { type: 'string', description: 'Pass back to get only newer output' },
+      },
+      required: ['status', 'runtimeSeconds', 'recentSteps', 'filesTouched', 'lastOutput', 'cursor'],
+    },
+    annotations: { title: 'Claude Code task status', readOnlyHint: true, destructiveHint: false },
   },
   {
     name: 'get_claude_code_output',
-    description: 'Get the full output from a Claude Code task.',
+    description: 'Get the full output from a Claude Code task, or only new output since a cursor.',
     inputSchema: {
       type: 'object',
       properties: {
         taskId: {
           type: 'string',
-          description: 'The task ID returned from start_claude_code_task',
+          description: 'The task ID returned from start_claude_code_task (default: the last task started in this session)',
         },
         lines: {
-          type: 'number',
+          type: 'integer',
+          minimum: 1,
+          default: 500,
           description: 'Number of lines to retrieve (default: 500)',
         },
+        cursor: {
+          type: 'string',
+          description: 'Cursor from a previous response; only output produced since then is returned',
+        },
+        sinceLastCheck: {
+          type: 'boolean',
+          default: false,
+          description: 'If true, return only output produced since your last call for this task (default: false)',
+        },
       },
-      required: ['taskId'],
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        output: { type: 'string' },
+        status: TASK_STATUS_SCHEMA,
+        finalAnswer: { type: 'string' },
+        cursor: { type: 'string', description: 'Pass back to get only newer output' },
+        truncated: { type: 'boolean', description: 'Older new lines were omitted' },
+      },
+      required: ['output', 'status', 'cursor'],
+    },
+    annotations: { title: 'Claude Code task output', readOnlyHint: true, destructiveHint: false },
+  },
+  {
+    name: 'wait_for_claude_code',
+    description: 'Wait until a Claude Code task finishes, fails or is stopped, prints output matching a pattern, or appears to be waiting for input. Returns what happened while waiting. Use instead of polling get_claude_code_status.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          description: 'The task ID to wait on (default: the last task started in this session)',
+        },
+        timeoutSeconds: {
+          type: 'number',
+          minimum: 1,
+          maximum: 600,
+          default: 120,
+          description: 'Maximum time to wait (default: 120, max: 600)',
+        },
+        pattern: {
+          type: 'string',
+          description: 'Case-insensitive regular expression; return as soon as a new output line matches (optional)',
+        },
+        idleSeconds: {
+          type: 'number',
+          minimum: 1,
+          description: 'Treat this many seconds without new output as waiting for input (optional)',
+        },
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string' },
+        reason: {
+          type: 'string',
+          enum: ['completed', 'failed', 'stopped', 'pattern_matched', 'waiting_for_input', 'timeout', 'cancelled'],
+        },
+        status: TASK_STATUS_SCHEMA,
+        waitedSeconds: { type: 'number' },
+        newSteps: { type: 'array', items: { type: 'string' } },
+        matchedLine: { type: 'string' },
+        currentStep: { type: 'string' },
+        filesTouched: { type: 'array', items: { type: 'string' } },
+        finalAnswer: { type: 'string' },
+        lastError: { type: 'string' },
+        queuePosition: { type: 'number' },
+      },
+      required: ['taskId', 'reason', 'status', 'waitedSeconds', 'newSteps', 'filesTouched'],
     },
+    annotations: { title: 'Wait for Claude Code', readOnlyHint: true, destructiveHint: false },
   },
   {
     name: 'send_to_claude_code',
@@ -159,73 +688,563 @@ const TOOLS = [
       properties: {
         taskId: {
           type: 'string',
-          description: 'The task ID of the running session',
+          description: 'The task ID of the running session (default: the last task started in this session)',
         },
         message: {
           type: 'string',
+          minLength: 1,
           description: 'The message to send to Claude Code',
         },
       },
-      required: ['taskId', 'message'],
+      required: ['message'],
+      additionalProperties: false,
+    },
+    outputSchema: actionResultSchema('sent'),
+    annotations: { title: 'Message Claude Code', readOnlyHint: false, destructiveHint: false },
+  },
+  {
+    name: 'continue_claude_code_task',
+    description: 'Follow up on a finished Claude Code task. Starts a new task that resumes the same Claude conversation in the same working directory.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          description: 'The task ID of the finished task to continue (default: the last task started in this session)',
+        },
+        prompt: {
+          type: 'string',
+          minLength: 1,
+          description: 'The follow-up message for Claude Code',
+        },
+        waitForCompletion: {
+          type: 'boolean',
+          default: false,
+          description: 'If true, wait for the new task to complete before returning (default: false)',
+        },
+        timeoutSeconds: {
+          type: 'number',
+          minimum: 1,
+          maximum: 600,
+          default: 300,
+          description: 'Maximum time to wait if waitForCompletion is true (default: 300, max: 600)',
+        },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from a previous "needs confirmation" response, passed back after the user has confirmed',
+        },
+      },
+      required: ['prompt'],
+      additionalProperties: false,
     },
+    outputSchema: START_RESULT_SCHEMA,
+    annotations: { title: 'Continue Claude Code task', readOnlyHint: false, destructiveHint: false },
   },
   {
     name: 'list_claude_code_sessions',
-    description: 'List all Claude Code sessions (running and completed).',
+    description: 'List all Claude Code sessions (running and completed), or the conversation thread of one task.',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        threadTaskId: {
+          type: 'string',
+          description: 'Only list tasks in the same conversation thread as this task, oldest first (optional)',
+        },
+      },
       required: [],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sessions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              taskId: { type: 'string' },
+              prompt: { type: 'string', description: 'First 100 characters' },
+              status: TASK_STATUS_SCHEMA,
+              runtimeSeconds: { type: 'number' },
+              workingDirectory: { type: 'string' },
+              currentStep: { type: 'string' },
+              parentTaskId: { type: 'string' },
+              queuePosition: { type: 'number' },
+            },
+            required: ['taskId', 'prompt', 'status', 'runtimeSeconds', 'workingDirectory'],
+          },
+        },
+        orphanSessions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'claude-* tmux sessions that are not in the task registry',
+        },
+      },
+      required: ['sessions', 'orphanSessions'],
     },
+    annotations: { title: 'List Claude Code tasks', readOnlyHint: true, destructiveHint: false },
   },
   {
     name: 'stop_claude_code_task',
-    description: 'Stop a running Claude Code task.',
+    description: 'Stop a running Claude Code task, or cancel a queued one.',
     inputSchema: {
       type: 'object',
       properties: {
         taskId: {
           type: 'string',
-          description: 'The task ID to stop',
+          description: 'The task ID to stop (default: the last task started in this session)',
+        },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from a previous "needs confirmation" response, passed back after the user has confirmed',
         },
       },
-      required: ['taskId'],
+      required: [],
+      additionalProperties: false,
     },
+    outputSchema: actionResultSchema('stopped'),
+    annotations: { title: 'Stop Claude Code task', readOnlyHint: false, destructiveHint: true },
   },
-];
-
-// Handle MCP requests
-export async function handleMcpRequest(request: JsonRpcRequest): Promise<JsonRpcResponse> {
-  const { id, method, params } = request;
-
-  switch (method) {
-    case 'initialize':
-      return {
-        jsonrpc: '2.0',
-        id,
-        result: {
-          protocolVersion: MCP_PROTOCOL_VERSION,
-          serverInfo: SERVER_INFO,
-          capabilities: SERVER_CAPABILITIES,
+  {
+    name: 'review_claude_code_changes',
+    description: 'Summarize the changes an isolated Claude Code task made on its branch: files changed and commits.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          description: 'The task ID of an isolated task (default: the last task started in this session)',
         },
-      };
-
-    case 'initialized':
-      // Client acknowledgment, no response needed but we return success
-      return { jsonrpc: '2.0', id, result: {} };
-
-    case 'tools/list':
-      return {
-        jsonrpc: '2.0',
-        id,
-        result: { tools: TOOLS },
-      };
-
-    case 'tools/call':
-      return handleToolCall(id, params as { name: string; arguments?: Record<string, unknown> });
-
-    case 'ping':
-      return { jsonrpc: '2.0', id, result: {} };
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        branch: { type: 'string' },
+        baseBranch: { type: 'string' },
+        summary: { type: 'string' },
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { path: { type: 'string' }, change: { type: 'string' } },
+            required: ['path', 'change'],
+          },
+        },
+        commits: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['branch', 'baseBranch', 'summary', 'files', 'commits'],
+    },
+    annotations: { title: 'Review task changes', readOnlyHint: true, destructiveHint: false },
+  },
+  {
+    name: 'merge_claude_code_changes',
+    description: "Merge an isolated Claude Code task's branch back into the main checkout and remove its worktree.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          minLength: 1,
+          description: 'The task ID of an isolated task',
+        },
+        commitMessage: {
+          type: 'string',
+          description: 'Commit message for uncommitted changes in the worktree (optional)',
+        },
+      },
+      required: ['taskId'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        merged: { type: 'boolean' },
+        summary: { type: 'string' },
+        error: { type: 'string', description: 'Why it did not happen' },
+      },
+      required: ['merged'],
+    },
+    annotations: { title: 'Merge task changes', readOnlyHint: false, destructiveHint: true },
+  },
+  {
+    name: 'discard_claude_code_changes',
+    description: "Throw away an isolated Claude Code task's worktree and branch.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          minLength: 1,
+          description: 'The task ID of an isolated task',
+        },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from a previous "needs confirmation" response, passed back after the user has confirmed',
+        },
+      },
+      required: ['taskId'],
+      additionalProperties: false,
+    },
+    outputSchema: actionResultSchema('discarded'),
+    annotations: { title: 'Discard task changes', readOnlyHint: false, destructiveHint: true },
+  },
+  // Audit log
+  {
+    name: 'audit_search',
+    description: 'Search the log of tool calls made with your account, newest first. Answers questions like "what did I run yesterday in the pedal repo?".',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Text to look for in the arguments and output (case-insensitive)',
+        },
+        tool: {
+          type: 'string',
+          description: 'Only calls to this tool, e.g. execute_command',
+        },
+        directory: {
+          type: 'string',
+          description: 'Only calls whose working directory contains this text, e.g. a repo name',
+        },
+        since: {
+          type: 'string',
+          description: 'Only calls at or after this date/time (ISO 8601, e.g. 2025-06-01 or 2025-06-01T09:00:00Z)',
+        },
+        until: {
+          type: 'string',
+          description: 'Only calls at or before this date/time (ISO 8601)',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          default: 20,
+          description: 'Maximum entries to return (default: 20)',
+        },
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              timestamp: { type: 'string' },
+              user: { type: 'string' },
+              clientId: { type: 'string' },
+              tool: { type: 'string' },
+              arguments: { type: 'object' },
+              cwd: { type: 'string' },
+              isError: { type: 'boolean' },
+              exitCode: { type: 'number' },
+              durationMs: { type: 'number' },
+              output: { type: 'string' },
+            },
+            required: ['timestamp', 'user', 'clientId', 'tool', 'arguments', 'isError', 'durationMs', 'output'],
+          },
+        },
+        more: { type: 'boolean', description: 'More entries match beyond the limit' },
+      },
+      required: ['entries', 'more'],
+    },
+    annotations: { title: 'Search audit log', readOnlyHint: true, destructiveHint: false },
+  },
+];
+
+// Shape of tools/call params, checked before anything is read from them
+const CALL_PARAMS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    arguments: { type: 'object' },
+    _meta: { type: 'object' },
+  },
+  required: ['name'],
+};
+
+// Scope required to list and call each tool
+const TOOL_SCOPES: Record<string, Scope> = {
+  execute_command: 'shell',
+  tmux_send: 'tmux',
+  tmux_capture: 'read',
+  read_command_output: 'read',
+  get_job_status: 'read',
+  get_job_output: 'read',
+  send_job_input: 'shell',
+  kill_job: 'shell',
+  list_jobs: 'read',
+  start_claude_code_task: 'claude-code',
+  get_claude_code_status: 'read',
+  get_claude_code_output: 'read',
+  wait_for_claude_code: 'read',
+  send_to_claude_code: 'claude-code',
+  continue_claude_code_task: 'claude-code',
+  list_claude_code_sessions: 'read',
+  stop_claude_code_task: 'claude-code',
+  review_claude_code_changes: 'read',
+  merge_claude_code_changes: 'claude-code',
+  discard_claude_code_changes: 'claude-code',
+  audit_search: 'read',
+};
+
+function isToolAllowed(name: string, context: McpContext): boolean {
+  const scope = TOOL_SCOPES[name];
+  return scope !== undefined && context.scopes.includes(scope);
+}
+
+// An explicit cursor wins; sinceLastCheck falls back to the last cursor this grant was given
+function resolveCursor(
+  args: Record<string, unknown> | undefined,
+  context: McpContext,
+  target: string
+): string | undefined {
+  if (args?.cursor) {
+    return args.cursor as string;
+  }
+  return args?.sinceLastCheck ? getDefaultCursor(context.grantId, target) : undefined;
+}
+
+/**
+ * Apply the command policy. Returns a tool result to send instead of running, or undefined to go ahead.
+ * Actions needing confirmation are confirmed through elicitation when the client supports it,
+ * otherwise with a single-use token the client must pass back after asking the user.
+ */
+async function checkPolicy(
+  id: string | number,
+  tool: PolicyTool,
+  command: string | undefined,
+  cwd: string | undefined,
+  action: string, // What is about to happen, for the confirmation prompt
+  args: Record<string, unknown> | undefined,
+  context: McpContext
+): Promise<JsonRpcResponse | undefined> {
+  const refuse = (text: string): JsonRpcResponse => ({
+    jsonrpc: '2.0',
+    id,
+    result: {
+      content: [{ type: 'text', text }],
+      isError: true,
+    },
+  });
+
+  const decision = evaluatePolicy(tool, command, cwd);
+  if (decision.action === 'allow') {
+    return undefined;
+  }
+  if (decision.action === 'deny') {
+    logToClient(context, 'warning', 'policy', { tool, command, cwd, reason: decision.reason });
+    return refuse(`Blocked by command policy. ${decision.reason || 'This is not allowed here.'}`);
+  }
+
+  const reason = decision.reason || 'The command policy flags this as risky.';
+  const token = args?.confirmationToken as string | undefined;
+  if (token && consumeConfirmationToken(token, context.grantId, tool, args)) {
+    return undefined;
+  }
+
+  if (context.sendRequest && getClientCapabilities(context)?.elicitation) {
+    try {
+      const answer = (await context.sendRequest('elicitation/create', {
+        message: `${reason} ${action}?`,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: { type: 'boolean', title: 'Go ahead', description: action },
+          },
+          required: ['confirm'],
+        },
+      })) as { action?: string; content?: { confirm?: boolean } };
+
+      if (answer?.action === 'accept' && answer.content?.confirm === true) {
+        return undefined;
+      }
+      return refuse(`Not done: the user did not confirm. ${action} was cancelled.`);
+    } catch (error) {
+      console.warn(`Elicitation failed, falling back to a confirmation token: ${error}`);
+    }
+  }
+
+  const newToken = issueConfirmationToken(context.grantId, tool, args);
+  return refuse(
+    `This needs confirmation. ${reason} ${action}? Ask the user to confirm, then call ${tool} again with the same arguments plus confirmationToken: "${newToken}".`
+  );
+}
+
+/**
+ * Check that a message is a well-formed JSON-RPC 2.0 request or notification.
+ * Returns an Invalid Request (-32600) error for it, or undefined if it is fine.
+ */
+export function validateJsonRpcMessage(message: unknown): JsonRpcResponse | undefined {
+  const invalid = (id: unknown, reason: string): JsonRpcResponse => ({
+    jsonrpc: '2.0',
+    id: typeof id === 'string' || typeof id === 'number' ? id : null,
+    error: { code: -32600, message: `Invalid Request: ${reason}` },
+  });
+
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return invalid(null, 'expected a JSON-RPC object');
+  }
+  const { jsonrpc, id, method, params } = message as Record<string, unknown>;
+  if (jsonrpc !== '2.0') {
+    return invalid(id, 'jsonrpc must be "2.0"');
+  }
+  if (typeof method !== 'string') {
+    return invalid(id, 'method must be a string');
+  }
+  if ('id' in message && typeof id !== 'string' && typeof id !== 'number') {
+    return invalid(id, 'id must be a string or number');
+  }
+  if (params !== undefined && (typeof params !== 'object' || params === null)) {
+    return invalid(id, 'params must be an object');
+  }
+  return undefined;
+}
+
+// Tool calls in progress, so notifications/cancelled can abort them. Request ids are only
+// unique per client, so they are keyed by session, or by grant for stateless clients.
+const inFlight = new Map<string, AbortController>();
+
+// Abort reason for a call the client cancelled; such calls get no response, as the spec asks
+const CANCELLED_BY_CLIENT = 'cancelled by client';
+
+function inFlightKey(context: McpContext, requestId: unknown): string {
+  return `${context.session?.sessionId || context.grantId}:${String(requestId)}`;
+}
+
+/**
+ * Handle a notification from the client. Unknown notifications are ignored, as JSON-RPC requires.
+ */
+export function handleMcpNotification(notification: JsonRpcRequest, context: McpContext): void {
+  const { method, params } = notification;
+
+  switch (method) {
+    case 'notifications/cancelled': {
+      const controller = inFlight.get(inFlightKey(context, params?.requestId));
+      if (controller) {
+        console.log(`Cancelling request ${params?.requestId}${params?.reason ? `: ${params.reason}` : ''}`);
+        controller.abort(CANCELLED_BY_CLIENT);
+      }
+      return;
+    }
+
+    case 'notifications/initialized':
+      // The client is ready; nothing to do
+      return;
+  }
+}
+
+// Handle MCP requests. Undefined means no response is sent: the client cancelled the request.
+export async function handleMcpRequest(
+  request: JsonRpcRequest,
+  context: McpContext
+): Promise<JsonRpcResponse | undefined> {
+  const { method, params } = request;
+  const id = request.id!; // Messages without an id go to handleMcpNotification
+
+  switch (method) {
+    case 'initialize': {
+      const protocolVersion = negotiateProtocolVersion(params?.protocolVersion);
+      clientCapabilities.set(context.grantId, (params?.capabilities as Record<string, unknown>) || {});
+      if (context.session) {
+        context.session.protocolVersion = protocolVersion;
+        context.session.clientCapabilities = (params?.capabilities as Record<string, unknown>) || {};
+        context.session.clientInfo = params?.clientInfo as McpSession['clientInfo'];
+      }
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          protocolVersion,
+          serverInfo: SERVER_INFO,
+          capabilities: SERVER_CAPABILITIES,
+        },
+      };
+    }
+
+    case 'tools/list': {
+      // Older clients get tool definitions in the shape their protocol version knows
+      const tools = TOOLS.filter(tool => isToolAllowed(tool.name, context)).map(
+        ({ outputSchema, annotations, ...tool }) => ({
+          ...tool,
+          outputSchema: context.protocolVersion >= STRUCTURED_OUTPUT_VERSION ? outputSchema : undefined,
+          annotations: context.protocolVersion >= TOOL_ANNOTATIONS_VERSION ? annotations : undefined,
+        })
+      );
+      return { jsonrpc: '2.0', id, result: { tools } };
+    }
+
+    case 'logging/setLevel': {
+      const level = params?.level as LogLevel;
+      if (!LOG_LEVELS.includes(level)) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32602, message: `Invalid log level: ${level}. Expected one of ${LOG_LEVELS.join(', ')}` },
+        };
+      }
+      logLevels.set(context.grantId, level);
+      return { jsonrpc: '2.0', id, result: {} };
+    }
+
+    case 'tools/call': {
+      // A call must name its tool; without one there is nothing to check scopes or arguments against
+      const paramErrors = validateSchema(CALL_PARAMS_SCHEMA, params, 'params').errors;
+      if (paramErrors.length > 0) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32602, message: `Invalid params: ${paramErrors.join('; ')}`, data: { errors: paramErrors } },
+        };
+      }
+      const callParams = params as {
+        name: string;
+        arguments?: Record<string, unknown>;
+        _meta?: { progressToken?: string | number };
+      };
+      const started = Date.now();
+      const details: ToolCallDetails = {};
+
+      // Progress notifications go out only when the client asked for them with a token
+      const progressToken = callParams?._meta?.progressToken;
+      let progress = 0;
+      const reportProgress =
+        progressToken !== undefined && context.notify
+          ? (message: string) => context.notify!('notifications/progress', { progressToken, progress: ++progress, message })
+          : undefined;
+
+      const controller = new AbortController();
+      const key = inFlightKey(context, id);
+      inFlight.set(key, controller);
+      let response: JsonRpcResponse;
+      try {
+        const callContext = { ...context, reportProgress, signal: controller.signal };
+        response = await handleToolCall(id, callParams, callContext, details);
+      } finally {
+        inFlight.delete(key);
+      }
+      auditToolCall(callParams, context, details, response, Date.now() - started);
+
+      // A cancelled request gets no response; any other abort is reported as an error
+      if (controller.signal.aborted) {
+        if (controller.signal.reason === CANCELLED_BY_CLIENT) return undefined;
+        return { jsonrpc: '2.0', id, error: { code: -32800, message: 'Request cancelled' } };
+      }
+      if (response.result && context.protocolVersion < STRUCTURED_OUTPUT_VERSION) {
+        const { structuredContent: _structured, ...result } = response.result as Record<string, unknown>;
+        return { ...response, result };
+      }
+      return response;
+    }
+
+    case 'ping':
+      return { jsonrpc: '2.0', id, result: {} };
 
     default:
       return {
@@ -236,228 +1255,595 @@ export async function handleMcpRequest(request: JsonRpcRequest): Promise<JsonRpc
   }
 }
 
+interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * A tool result with data as structuredContent. The content blocks default to the same data
+ * as JSON, for clients that predate structured output.
+ */
+function toolResult(
+  id: string | number,
+  data: object,
+  isError: boolean = false,
+  content: TextContent[] = [{ type: 'text', text: JSON.stringify(data, null, 2) }]
+): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result: { content, structuredContent: data, isError } };
+}
+
+// Failures that only carry a message don't match the tool's outputSchema, so they go out as text alone
+function toolError(id: string | number, error: string): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    result: { content: [{ type: 'text', text: JSON.stringify({ error }, null, 2) }], isError: true },
+  };
+}
+
+// Report the latest output line of a running command as progress, at most once a second
+function throttledLastLine(report: (message: string) => void): (text: string) => void {
+  let lastReport = 0;
+  return text => {
+    const line = text.trimEnd().split('\n').pop()?.trim();
+    if (line && Date.now() - lastReport >= 1000) {
+      lastReport = Date.now();
+      report(line.substring(0, 200));
+    }
+  };
+}
+
+// Task tools act on the last task started in the session when taskId is left out
+function resolveTaskId(args: Record<string, unknown> | undefined, context: McpContext): string | undefined {
+  return (args?.taskId as string | undefined) || context.session?.lastTaskId;
+}
+
+const NO_SESSION_TASK = ' (no Claude Code task has been started in this session)';
+
+// Facts about a tool call that are not in its result, filled in by the tool for the audit log
+interface ToolCallDetails {
+  cwd?: string;
+  exitCode?: number;
+}
+
+function auditToolCall(
+  params: { name: string; arguments?: Record<string, unknown> },
+  context: McpContext,
+  details: ToolCallDetails,
+  response: JsonRpcResponse,
+  durationMs: number
+): void {
+  const result = response.result as { content?: Array<{ text?: string }>; isError?: boolean } | undefined;
+  const output = response.error
+    ? response.error.message
+    : (result?.content || []).map(block => block.text || '').join('\n');
+
+  recordToolCall({
+    user: context.user,
+    clientId: context.clientId,
+    tool: params?.name,
+    arguments: params?.arguments || {},
+    cwd: details.cwd,
+    isError: !!response.error || !!result?.isError,
+    exitCode: details.exitCode,
+    durationMs,
+    output,
+  });
+}
+
 async function handleToolCall(
   id: string | number,
-  params: { name: string; arguments?: Record<string, unknown> }
+  params: { name: string; arguments?: Record<string, unknown> },
+  context: McpContext,
+  details: ToolCallDetails
 ): Promise<JsonRpcResponse> {
-  const { name, arguments: args } = params;
+  const { name } = params;
+
+  if (TOOL_SCOPES[name] && !isToolAllowed(name, context)) {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: -32602,
+        message: `Tool ${name} requires the '${TOOL_SCOPES[name]}' scope, which this connector was not granted`,
+        data: { requiredScope: TOOL_SCOPES[name], grantedScopes: context.scopes },
+      },
+    };
+  }
+
+  const tool = TOOLS.find(candidate => candidate.name === name);
+  if (!tool) {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: { code: -32602, message: `Unknown tool: ${name}` },
+    };
+  }
+
+  // Arguments are checked against the tool's inputSchema, with its defaults filled in, before it runs
+  const validation = validateSchema(tool.inputSchema, params.arguments ?? {});
+  if (validation.errors.length > 0) {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: -32602,
+        message: `Invalid arguments for ${name}: ${validation.errors.join('; ')}`,
+        data: { errors: validation.errors },
+      },
+    };
+  }
+  const args = validation.value as Record<string, unknown>;
 
   try {
     switch (name) {
       case 'execute_command': {
-        const command = args?.command as string;
-        const cwd = args?.cwd as string | undefined;
+        const command = args.command as string;
+        // Relative and default working directories resolve against the user's workspace
+        const cwd = context.workspace
+          ? path.resolve(context.workspace, (args.cwd as string) || '.')
+          : (args.cwd as string | undefined);
 
-        if (!command) {
-          return {
-            jsonrpc: '2.0',
-            id,
-            error: { code: -32602, message: 'Missing required parameter: command' },
-          };
+        details.cwd = cwd || process.env.HOME;
+
+        // Input can be a script for the command (bash, sh, python...), so it is checked as more command lines
+        const stdin = args.stdin as string | undefined;
+        const blocked = await checkPolicy(
+          id,
+          'execute_command',
+          stdin ? `${command}\n${stdin}` : command,
+          cwd || process.env.HOME,
+          stdin ? `Run "${command}" with the given input` : `Run "${command}"`,
+          args,
+          context
+        );
+        if (blocked) return blocked;
+
+        const env = args.env as Record<string, string> | undefined;
+
+        if (args.background) {
+          const job = startJob(command, cwd, context.user, { env, stdin });
+          return 'error' in job ? toolError(id, job.error) : toolResult(id, job);
         }
 
-        const result = await executeCommand(command, cwd);
+        const result = await executeCommand(command, cwd, {
+          timeoutSeconds: args.timeoutSeconds as number | undefined,
+          maxOutputBytes: args.maxOutputBytes as number | undefined,
+          env,
+          stdin,
+          owner: context.user,
+          onOutput: context.reportProgress ? throttledLastLine(context.reportProgress) : undefined,
+          signal: context.signal,
+        });
+
+        details.exitCode = result.exitCode;
 
         let content = '';
         if (result.stdout) content += result.stdout;
         if (result.stderr) content += (content ? '\n\nSTDERR:\n' : '') + result.stderr;
         if (!content) content = `Command completed with exit code ${result.exitCode}`;
+        if (result.outputId) {
+          content += `\n\n(Output truncated. Full output: read_command_output with outputId ${result.outputId})`;
+        }
 
-        return {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            content: [{ type: 'text', text: content }],
-            isError: result.exitCode !== 0,
-          },
-        };
+        return toolResult(id, result, result.exitCode !== 0, [{ type: 'text', text: content }]);
       }
 
       case 'tmux_send': {
-        const session = (args?.session as string) || '';
-        const keys = args?.keys as string;
+        const session = (args.session as string) || '';
+        const keys = args.keys as string;
 
-        if (!keys) {
+        if (!isValidSessionName(session)) {
           return {
             jsonrpc: '2.0',
             id,
-            error: { code: -32602, message: 'Missing required parameter: keys' },
+            error: { code: -32602, message: `Invalid tmux session name: ${session}` },
           };
         }
 
-        const target = session ? `-t ${session}` : '';
-        const result = await executeCommand(`tmux send-keys ${target} ${JSON.stringify(keys)} Enter`);
-
-        return {
-          jsonrpc: '2.0',
+        // Keys are usually a command typed at the pane's shell
+        details.cwd = await getPaneDirectory(session);
+        const blocked = await checkPolicy(
           id,
-          result: {
-            content: [{ type: 'text', text: result.stderr || 'Keys sent successfully' }],
-            isError: result.exitCode !== 0,
-          },
-        };
+          'tmux_send',
+          keys,
+          details.cwd,
+          `Type "${keys}" into tmux${session ? ` session ${session}` : ''}`,
+          args,
+          context
+        );
+        if (blocked) return blocked;
+
+        const result = await runTmux(['send-keys', ...(session ? ['-t', session] : []), keys, 'Enter']);
+
+        const sent = { sent: result.exitCode === 0, error: result.stderr || undefined };
+        return toolResult(id, sent, !sent.sent, [{ type: 'text', text: result.stderr || 'Keys sent successfully' }]);
       }
 
       case 'tmux_capture': {
-        const session = (args?.session as string) || '';
-        const lines = (args?.lines as number) || 50;
+        const session = (args.session as string) || '';
+        if (!isValidSessionName(session)) {
+          return {
+            jsonrpc: '2.0',
+            id,
+            error: { code: -32602, message: `Invalid tmux session name: ${session}` },
+          };
+        }
+        const lines = args.lines as number;
+        const cursorTarget = `pane:${session}`;
+        const cursor = resolveCursor(args, context, cursorTarget);
+
+        const result = await capturePane(session, lines, cursor);
+        if (result.cursor) {
+          setDefaultCursor(context.grantId, cursorTarget, result.cursor);
+        }
+
+        const empty = cursor ? '(no new output)' : '(empty)';
+        const content: TextContent[] = [{ type: 'text', text: result.error || result.output || empty }];
+        if (result.cursor) {
+          const truncated = result.truncated ? ' (older new lines were omitted)' : '';
+          content.push({ type: 'text', text: `Cursor: ${result.cursor}${truncated}` });
+        }
 
-        const target = session ? `-t ${session}` : '';
-        const result = await executeCommand(
-          `tmux capture-pane ${target} -p -S -${lines}`
+        const { exitCode, ...captured } = result;
+        return toolResult(id, { ...captured, output: result.output || empty }, exitCode !== 0, content);
+      }
+
+      case 'read_command_output': {
+        const outputId = args.outputId as string;
+
+        const result = await readCommandOutput(
+          context.user,
+          outputId,
+          args.stream as 'stdout' | 'stderr' | undefined,
+          args.startLine as number | undefined,
+          args.lines as number | undefined
         );
 
-        return {
-          jsonrpc: '2.0',
+        return 'error' in result ? toolError(id, result.error) : toolResult(id, result);
+      }
+
+      // Background job tools
+      case 'get_job_status': {
+        const jobId = args.jobId as string;
+
+        const result = getJobStatus(jobId, context.user);
+
+        return 'error' in result ? toolError(id, result.error) : toolResult(id, result);
+      }
+
+      case 'get_job_output': {
+        const jobId = args.jobId as string;
+        const lines = args.lines as number | undefined;
+
+        const cursorTarget = `job:${jobId}`;
+        const result = getJobOutput(jobId, context.user, lines, resolveCursor(args, context, cursorTarget));
+        if ('cursor' in result) {
+          setDefaultCursor(context.grantId, cursorTarget, result.cursor);
+        }
+
+        return 'error' in result ? toolError(id, result.error) : toolResult(id, result);
+      }
+
+      case 'send_job_input': {
+        const jobId = args.jobId as string;
+        const input = args.input as string;
+
+        // Jobs are often shells or REPLs, so input gets the same checks as a command
+        const job = getJobStatus(jobId, context.user);
+        details.cwd = 'error' in job ? undefined : job.cwd;
+        const blocked = await checkPolicy(
           id,
-          result: {
-            content: [{ type: 'text', text: result.stdout || result.stderr || '(empty)' }],
-            isError: result.exitCode !== 0,
-          },
-        };
+          'send_job_input',
+          input,
+          details.cwd,
+          `Send "${input}" to job ${jobId}`,
+          args,
+          context
+        );
+        if (blocked) return blocked;
+
+        const result = sendJobInput(jobId, input, context.user, {
+          newline: args.newline as boolean | undefined,
+          closeStdin: args.closeStdin as boolean | undefined,
+        });
+
+        return toolResult(id, result, !result.sent);
+      }
+
+      case 'kill_job': {
+        const jobId = args.jobId as string;
+        const signal = args.signal as string | undefined;
+
+        const job = getJobStatus(jobId, context.user);
+        details.cwd = 'error' in job ? undefined : job.cwd;
+        const blocked = await checkPolicy(
+          id,
+          'kill_job',
+          undefined,
+          details.cwd,
+          `Kill job ${jobId}${'error' in job ? '' : ` (${job.command})`}`,
+          args,
+          context
+        );
+        if (blocked) return blocked;
+
+        const result = killJob(jobId, context.user, signal);
+
+        return toolResult(id, result, !result.killed);
+      }
+
+      case 'list_jobs': {
+        const result = listJobs(context.user);
+
+        return toolResult(id, result);
       }
 
       // Claude Code management tools
       case 'start_claude_code_task': {
-        const prompt = args?.prompt as string;
-        const workingDirectory = args?.workingDirectory as string;
-        const waitForCompletion = (args?.waitForCompletion as boolean) || false;
-        const timeoutSeconds = (args?.timeoutSeconds as number) || 300;
+        const prompt = args.prompt as string;
+        let workingDirectory = args.workingDirectory as string;
+        const waitForCompletion = args.waitForCompletion as boolean;
+        const timeoutSeconds = args.timeoutSeconds as number;
+        const isolated = args.isolated as boolean;
+        const priority = args.priority as number;
 
-        if (!prompt || !workingDirectory) {
+        if (context.workspace) {
+          if (!isWithinWorkspace(context.workspace, workingDirectory)) {
+            return {
+              jsonrpc: '2.0',
+              id,
+              error: { code: -32602, message: `workingDirectory must be inside your workspace: ${context.workspace}` },
+            };
+          }
+          workingDirectory = path.resolve(context.workspace, workingDirectory);
+        }
+
+        details.cwd = workingDirectory;
+
+        const blocked = await checkPolicy(
+          id,
+          'start_claude_code_task',
+          undefined,
+          workingDirectory,
+          `Start Claude Code in ${workingDirectory}`,
+          args,
+          context
+        );
+        if (blocked) return blocked;
+
+        const result = await startClaudeCodeTask(prompt, workingDirectory, context.user, {
+          waitForCompletion,
+          timeoutSeconds,
+          isolated,
+          priority,
+          onProgress: context.reportProgress,
+          signal: context.signal,
+        });
+        if (context.session) {
+          context.session.lastTaskId = result.taskId;
+        }
+
+        return toolResult(id, result);
+      }
+
+      case 'get_claude_code_status': {
+        const taskId = resolveTaskId(args, context);
+
+        if (!taskId) {
           return {
             jsonrpc: '2.0',
             id,
-            error: { code: -32602, message: 'Missing required parameters: prompt and workingDirectory' },
+            error: { code: -32602, message: `Missing required parameter: taskId${NO_SESSION_TASK}` },
           };
         }
 
-        const result = await startClaudeCodeTask(prompt, workingDirectory, waitForCompletion, timeoutSeconds);
+        const cursorTarget = `task:${taskId}`;
+        const result = await getClaudeCodeStatus(taskId, context.user, resolveCursor(args, context, cursorTarget));
+        if ('cursor' in result) {
+          setDefaultCursor(context.grantId, cursorTarget, result.cursor);
+        }
 
-        return {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            isError: false,
-          },
-        };
+        return 'error' in result ? toolError(id, result.error) : toolResult(id, result);
       }
 
-      case 'get_claude_code_status': {
-        const taskId = args?.taskId as string;
+      case 'get_claude_code_output': {
+        const taskId = resolveTaskId(args, context);
+        const lines = args.lines as number | undefined;
 
         if (!taskId) {
           return {
             jsonrpc: '2.0',
             id,
-            error: { code: -32602, message: 'Missing required parameter: taskId' },
+            error: { code: -32602, message: `Missing required parameter: taskId${NO_SESSION_TASK}` },
           };
         }
 
-        const result = await getClaudeCodeStatus(taskId);
+        const cursorTarget = `task:${taskId}`;
+        const result = await getClaudeCodeOutput(taskId, context.user, lines, resolveCursor(args, context, cursorTarget));
+        if ('cursor' in result) {
+          setDefaultCursor(context.grantId, cursorTarget, result.cursor);
+        }
 
-        return {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            isError: 'error' in result,
-          },
-        };
+        return 'error' in result ? toolError(id, result.error) : toolResult(id, result);
       }
 
-      case 'get_claude_code_output': {
-        const taskId = args?.taskId as string;
-        const lines = args?.lines as number | undefined;
+      case 'wait_for_claude_code': {
+        const taskId = resolveTaskId(args, context);
+        const timeoutSeconds = args.timeoutSeconds as number | undefined;
+        const pattern = args.pattern as string | undefined;
+        const idleSeconds = args.idleSeconds as number | undefined;
 
         if (!taskId) {
           return {
             jsonrpc: '2.0',
             id,
-            error: { code: -32602, message: 'Missing required parameter: taskId' },
+            error: { code: -32602, message: `Missing required parameter: taskId${NO_SESSION_TASK}` },
           };
         }
 
-        const result = await getClaudeCodeOutput(taskId, lines);
+        const result = await waitForClaudeCode(taskId, context.user, {
+          timeoutSeconds,
+          pattern,
+          idleSeconds,
+          onProgress: context.reportProgress,
+          signal: context.signal,
+        });
 
-        return {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            isError: 'error' in result,
-          },
-        };
+        return 'error' in result ? toolError(id, result.error) : toolResult(id, result);
       }
 
       case 'send_to_claude_code': {
-        const taskId = args?.taskId as string;
-        const message = args?.message as string;
+        const taskId = resolveTaskId(args, context);
+        const message = args.message as string;
 
-        if (!taskId || !message) {
+        if (!taskId) {
           return {
             jsonrpc: '2.0',
             id,
-            error: { code: -32602, message: 'Missing required parameters: taskId and message' },
+            error: { code: -32602, message: `Missing required parameter: taskId${NO_SESSION_TASK}` },
           };
         }
 
-        const result = await sendToClaudeCode(taskId, message);
+        const result = await sendToClaudeCode(taskId, message, context.user);
 
-        return {
-          jsonrpc: '2.0',
+        return toolResult(id, result, !result.sent);
+      }
+
+      case 'continue_claude_code_task': {
+        const taskId = resolveTaskId(args, context);
+        const prompt = args.prompt as string;
+        const waitForCompletion = args.waitForCompletion as boolean;
+        const timeoutSeconds = args.timeoutSeconds as number;
+
+        if (!taskId) {
+          return {
+            jsonrpc: '2.0',
+            id,
+            error: { code: -32602, message: `Missing required parameter: taskId${NO_SESSION_TASK}` },
+          };
+        }
+
+        // The follow-up runs in the original task's directory, so it is checked like a new start
+        details.cwd = getTaskWorkingDirectory(taskId, context.user);
+        const blocked = await checkPolicy(
           id,
-          result: {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            isError: !result.sent,
-          },
-        };
+          'continue_claude_code_task',
+          undefined,
+          details.cwd,
+          `Continue Claude Code task ${taskId}${details.cwd ? ` in ${details.cwd}` : ''}`,
+          args,
+          context
+        );
+        if (blocked) return blocked;
+
+        const result = await continueClaudeCodeTask(taskId, prompt, context.user, {
+          waitForCompletion,
+          timeoutSeconds,
+          onProgress: context.reportProgress,
+          signal: context.signal,
+        });
+        if (context.session && 'taskId' in result) {
+          context.session.lastTaskId = result.taskId;
+        }
+
+        return 'error' in result ? toolError(id, result.error) : toolResult(id, result);
       }
 
       case 'list_claude_code_sessions': {
-        const result = await listClaudeCodeSessions();
+        const threadTaskId = args.threadTaskId as string | undefined;
+        const result = await listClaudeCodeSessions(context.user, threadTaskId);
 
-        return {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            isError: false,
-          },
-        };
+        return toolResult(id, result);
       }
 
       case 'stop_claude_code_task': {
-        const taskId = args?.taskId as string;
+        const taskId = resolveTaskId(args, context);
 
         if (!taskId) {
           return {
             jsonrpc: '2.0',
             id,
-            error: { code: -32602, message: 'Missing required parameter: taskId' },
+            error: { code: -32602, message: `Missing required parameter: taskId${NO_SESSION_TASK}` },
           };
         }
 
-        const result = await stopClaudeCodeTask(taskId);
-
-        return {
-          jsonrpc: '2.0',
+        const blocked = await checkPolicy(
           id,
-          result: {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-            isError: !result.stopped,
-          },
-        };
+          'stop_claude_code_task',
+          undefined,
+          undefined,
+          `Stop Claude Code task ${taskId}`,
+          args,
+          context
+        );
+        if (blocked) return blocked;
+
+        const result = await stopClaudeCodeTask(taskId, context.user);
+
+        return toolResult(id, result, !result.stopped);
       }
 
-      default:
-        return {
-          jsonrpc: '2.0',
+      case 'review_claude_code_changes': {
+        const taskId = resolveTaskId(args, context);
+
+        if (!taskId) {
+          return {
+            jsonrpc: '2.0',
+            id,
+            error: { code: -32602, message: `Missing required parameter: taskId${NO_SESSION_TASK}` },
+          };
+        }
+
+        const result = await reviewClaudeCodeChanges(taskId, context.user);
+
+        return 'error' in result ? toolError(id, result.error) : toolResult(id, result);
+      }
+
+      case 'merge_claude_code_changes': {
+        const taskId = args.taskId as string;
+        const commitMessage = args.commitMessage as string | undefined;
+
+        const result = await mergeClaudeCodeChanges(taskId, context.user, commitMessage);
+
+        return toolResult(id, result, !result.merged);
+      }
+
+      case 'discard_claude_code_changes': {
+        const taskId = args.taskId as string;
+
+        const blocked = await checkPolicy(
           id,
-          error: { code: -32602, message: `Unknown tool: ${name}` },
-        };
+          'discard_claude_code_changes',
+          undefined,
+          getTaskWorkingDirectory(taskId, context.user),
+          `Discard the changes made by Claude Code task ${taskId}`,
+          args,
+          context
+        );
+        if (blocked) return blocked;
+
+        const result = await discardClaudeCodeChanges(taskId, context.user);
+
+        return toolResult(id, result, !result.discarded);
+      }
+
+      case 'audit_search': {
+        const result = searchAudit(context.user, {
+          query: args.query as string | undefined,
+          tool: args.tool as string | undefined,
+          directory: args.directory as string | undefined,
+          since: args.since as string | undefined,
+          until: args.until as string | undefined,
+          limit: args.limit as number | undefined,
+        });
+
+        return toolResult(id, result);
+      }
     }
+    // Every tool in TOOLS has a case above, so this means one was added without its handler
+    throw new Error(`No handler for tool ${name}`);
   } catch (error) {
     return {
       jsonrpc: '2.0',
@@ -0,0 +1,142 @@
+import { dataPath, readJsonFile, writeJsonFile } from './persist.js';
+
+export interface OAuthClient {
+  client_id: string;
+  client_secret?: string;
+  redirect_uris: string[];
+  client_name?: string;
+  created_at: number;
+}
+
+// Codes and tokens are keyed by the SHA-256 hash of their value, never the plaintext
+export interface AuthCode {
+  code_hash: string;
+  client_id: string;
+  redirect_uri: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+  scope: string; // Space-delimited scopes the user consented to
+  user: string; // Username that logged in
+  expires_at: number;
+}
+
+// A grant is one successful authorization; all tokens rotated from it share its grant_id
+export interface TokenGrant {
+  client_id: string;
+  grant_id: string;
+  scope?: string; // Space-delimited; absent on tokens issued before scopes existed
+  user?: string; // Username the grant belongs to; absent on tokens issued before users existed
+}
+
+export interface AccessToken extends TokenGrant {
+  token_hash: string;
+  expires_at: number;
+}
+
+export interface RefreshToken extends TokenGrant {
+  token_hash: string;
+  expires_at: number;
+  rotated_at?: number; // Set once exchanged; presenting it again is a reuse
+}
+
+// Record type held in each collection of the store
+export interface OAuthRecords {
+  clients: OAuthClient;
+  authCodes: AuthCode;
+  accessTokens: AccessToken;
+  refreshTokens: RefreshToken;
+}
+
+export type OAuthCollection = keyof OAuthRecords;
+
+const COLLECTIONS: OAuthCollection[] = ['clients', 'authCodes', 'accessTokens', 'refreshTokens'];
+
+/**
+ * Storage backend for OAuth state
+ */
+export interface OAuthStore {
+  get<C extends OAuthCollection>(collection: C, key: string): OAuthRecords[C] | undefined;
+  put<C extends OAuthCollection>(collection: C, key: string, record: OAuthRecords[C]): void;
+  delete(collection: OAuthCollection, key: string): void;
+  list<C extends OAuthCollection>(collection: C): OAuthRecords[C][];
+  // Remove every record whose expires_at has passed, returning how many were removed
+  sweepExpired(now?: number): number;
+}
+
+type StoreData = { [C in OAuthCollection]: Record<string, OAuthRecords[C]> };
+
+/**
+ * In-memory store. If onChange is given it is called with a snapshot after every mutation.
+ */
+export function createMemoryStore(
+  initial?: Partial<StoreData>,
+  onChange?: (data: StoreData) => void
+): OAuthStore {
+  const maps = {} as { [C in OAuthCollection]: Map<string, OAuthRecords[C]> };
+  for (const collection of COLLECTIONS) {
+    maps[collection] = new Map(Object.entries(initial?.[collection] || {})) as never;
+  }
+
+  const changed = () => {
+    if (!onChange) return;
+    const data = {} as StoreData;
+    for (const collection of COLLECTIONS) {
+      data[collection] = Object.fromEntries(maps[collection]) as never;
+    }
+    onChange(data);
+  };
+
+  return {
+    get(collection, key) {
+      return maps[collection].get(key);
+    },
+
+    put(collection, key, record) {
+      maps[collection].set(key, record);
+      changed();
+    },
+
+    delete(collection, key) {
+      if (maps[collection].delete(key)) changed();
+    },
+
+    list(collection) {
+      return Array.from(maps[collection].values());
+    },
+
+    sweepExpired(now = Date.now()) {
+      let removed = 0;
+      for (const collection of COLLECTIONS) {
+        for (const [key, record] of maps[collection]) {
+          const expiresAt = (record as { expires_at?: number }).expires_at;
+          if (expiresAt !== undefined && expiresAt < now) {
+            maps[collection].delete(key);
+            removed++;
+          }
+        }
+      }
+      if (removed > 0) changed();
+      return removed;
+    },
+  };
+}
+
+/**
+ * JSON file-backed store. The whole file is rewritten atomically on every change.
+ */
+export function createFileStore(filePath: string): OAuthStore {
+  const initial = readJsonFile<Partial<StoreData>>(filePath, {});
+  return createMemoryStore(initial, data => writeJsonFile(filePath, data));
+}
+
+/**
+ * Create the store selected by OAUTH_STORE ('file' by default, or 'memory')
+ */
+export function createOAuthStore(): OAuthStore {
+  if (process.env.OAUTH_STORE === 'memory') {
+    return createMemoryStore();
+  }
+  const filePath = process.env.OAUTH_STORE_PATH || dataPath('oauth.json');
+  console.log(`OAuth store: ${filePath}`);
+  return createFileStore(filePath);
+}
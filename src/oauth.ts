@@ -1,36 +1,39 @@
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
+import { createOAuthStore, OAuthClient, AuthCode, AccessToken, RefreshToken, TokenGrant } from './oauth-store.js';
+import { SCOPES, ALL_SCOPES, Scope } from './scopes.js';
+import { MULTI_USER, OWNER_USERNAME, UserAccount, findUser } from './users.js';
+import { loadOrCreateTotpSecret, matchTotp, markTotpUsed } from './totp.js';
 
-// In-memory stores (would use Redis/SQLite in production)
-const clients = new Map<string, OAuthClient>();
-const authCodes = new Map<string, AuthCode>();
-const accessTokens = new Map<string, AccessToken>();
+const store = createOAuthStore();
 
-interface OAuthClient {
-  client_id: string;
-  client_secret?: string;
-  redirect_uris: string[];
-  client_name?: string;
-  created_at: number;
-}
-
-interface AuthCode {
-  code: string;
-  client_id: string;
-  redirect_uri: string;
-  code_challenge?: string;
-  code_challenge_method?: string;
-  expires_at: number;
-}
+// Sweep expired codes and tokens every minute
+setInterval(() => {
+  const removed = store.sweepExpired();
+  if (removed > 0) console.log(`Swept ${removed} expired OAuth record(s)`);
+}, 60 * 1000).unref();
 
-interface AccessToken {
-  token: string;
-  client_id: string;
-  expires_at: number;
+// Codes and tokens are only ever stored as SHA-256 hashes
+function hashSecret(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
 }
 
 const PIN = process.env.MCP_PIN || 'changeme';
 
+// Which credentials the authorize page asks for: 'pin' (default), 'totp', or 'both'
+export type AuthMode = 'pin' | 'totp' | 'both';
+export const AUTH_MODE: AuthMode = (['pin', 'totp', 'both'] as const).find(mode => mode === process.env.MCP_AUTH_MODE) || 'pin';
+
+const usesPin = AUTH_MODE !== 'totp';
+const usesTotp = AUTH_MODE !== 'pin';
+
+// Server TOTP secret for the single owner, generated on first run when TOTP is enabled
+export const totpSetup = usesTotp && !MULTI_USER ? loadOrCreateTotpSecret() : undefined;
+
+// Token lifetimes in seconds (configurable via env)
+export const ACCESS_TOKEN_TTL = parseInt(process.env.ACCESS_TOKEN_TTL || '', 10) || 24 * 60 * 60; // 24 hours
+export const REFRESH_TOKEN_TTL = parseInt(process.env.REFRESH_TOKEN_TTL || '', 10) || 30 * 24 * 60 * 60; // 30 days
+
 // Dynamic Client Registration (RFC 7591)
 export function registerClient(metadata: {
   redirect_uris: string[];
@@ -43,28 +46,33 @@ export function registerClient(metadata: {
     client_name: metadata.client_name,
     created_at: Date.now(),
   };
-  clients.set(client.client_id, client);
+  store.put('clients', client.client_id, client);
   return client;
 }
 
 export function getClient(clientId: string): OAuthClient | undefined {
-  return clients.get(clientId);
+  return store.get('clients', clientId);
 }
 
 // Authorization endpoint helpers
 export function createAuthCode(
   clientId: string,
   redirectUri: string,
-  codeChallenge?: string,
-  codeChallengeMethod?: string
+  codeChallenge: string | undefined,
+  codeChallengeMethod: string | undefined,
+  scope: string,
+  user: string
 ): string {
   const code = uuidv4();
-  authCodes.set(code, {
-    code,
+  const codeHash = hashSecret(code);
+  store.put('authCodes', codeHash, {
+    code_hash: codeHash,
     client_id: clientId,
     redirect_uri: redirectUri,
     code_challenge: codeChallenge,
     code_challenge_method: codeChallengeMethod,
+    scope,
+    user,
     expires_at: Date.now() + 10 * 60 * 1000, // 10 minutes
   });
   return code;
@@ -75,19 +83,21 @@ export function validateAuthCode(
   clientId: string,
   redirectUri: string,
   codeVerifier?: string
-): boolean {
-  const authCode = authCodes.get(code);
-  if (!authCode) return false;
-  if (authCode.client_id !== clientId) return false;
-  if (authCode.redirect_uri !== redirectUri) return false;
+): AuthCode | undefined {
+  if (!code) return undefined;
+  const codeHash = hashSecret(code);
+  const authCode = store.get('authCodes', codeHash);
+  if (!authCode) return undefined;
+  if (authCode.client_id !== clientId) return undefined;
+  if (authCode.redirect_uri !== redirectUri) return undefined;
   if (authCode.expires_at < Date.now()) {
-    authCodes.delete(code);
-    return false;
+    store.delete('authCodes', codeHash);
+    return undefined;
   }
 
   // PKCE validation
   if (authCode.code_challenge) {
-    if (!codeVerifier) return false;
+    if (!codeVerifier) return undefined;
 
     let computed: string;
     if (authCode.code_challenge_method === 'S256') {
@@ -99,46 +109,302 @@ export function validateAuthCode(
       computed = codeVerifier; // plain method
     }
 
-    if (computed !== authCode.code_challenge) return false;
+    if (computed !== authCode.code_challenge) return undefined;
   }
 
-  authCodes.delete(code); // Single use
-  return true;
+  store.delete('authCodes', codeHash); // Single use
+  return authCode;
 }
 
-export function createAccessToken(clientId: string): string {
+export function createAccessToken(grant: TokenGrant): string {
   const token = uuidv4();
-  accessTokens.set(token, {
-    token,
-    client_id: clientId,
-    expires_at: Date.now() + 24 * 60 * 60 * 1000, // 24 hours
+  const tokenHash = hashSecret(token);
+  store.put('accessTokens', tokenHash, {
+    ...grant,
+    token_hash: tokenHash,
+    expires_at: Date.now() + ACCESS_TOKEN_TTL * 1000,
   });
   return token;
 }
 
-export function validateAccessToken(token: string): boolean {
-  const accessToken = accessTokens.get(token);
-  if (!accessToken) return false;
+export function createRefreshToken(grant: TokenGrant): string {
+  const token = uuidv4();
+  const tokenHash = hashSecret(token);
+  store.put('refreshTokens', tokenHash, {
+    ...grant,
+    token_hash: tokenHash,
+    expires_at: Date.now() + REFRESH_TOKEN_TTL * 1000,
+  });
+  return token;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  scope?: string;
+}
+
+// Copy just the grant fields from a stored token so they carry over on rotation
+function grantOf(record: TokenGrant): TokenGrant {
+  return { client_id: record.client_id, grant_id: record.grant_id, scope: record.scope, user: record.user };
+}
+
+// Issue a fresh access/refresh token pair for a new grant (after a successful code exchange)
+export function issueTokens(clientId: string, scope: string, user: string): IssuedTokens {
+  const grant: TokenGrant = { client_id: clientId, grant_id: uuidv4(), scope, user };
+  return {
+    accessToken: createAccessToken(grant),
+    refreshToken: createRefreshToken(grant),
+    scope,
+  };
+}
+
+// Remove every access and refresh token belonging to a grant. Returns false if none existed.
+export function revokeGrant(grantId: string): boolean {
+  let found = false;
+  for (const token of store.list('accessTokens')) {
+    if (token.grant_id === grantId) {
+      store.delete('accessTokens', token.token_hash);
+      found = true;
+    }
+  }
+  for (const token of store.list('refreshTokens')) {
+    if (token.grant_id === grantId) {
+      store.delete('refreshTokens', token.token_hash);
+      found = true;
+    }
+  }
+  return found;
+}
+
+/**
+ * Exchange a refresh token for a new token pair (refresh token rotation).
+ * Presenting an already-rotated refresh token revokes the whole grant.
+ */
+export function exchangeRefreshToken(
+  refreshToken: string,
+  clientId?: string
+): IssuedTokens | undefined {
+  if (!refreshToken) return undefined;
+  const tokenHash = hashSecret(refreshToken);
+  const record = store.get('refreshTokens', tokenHash);
+  if (!record) return undefined;
+  if (clientId && record.client_id !== clientId) return undefined;
+  if (record.expires_at < Date.now()) {
+    store.delete('refreshTokens', tokenHash);
+    return undefined;
+  }
+
+  if (record.rotated_at) {
+    console.warn(`Refresh token reuse detected for client ${record.client_id}, revoking grant ${record.grant_id}`);
+    revokeGrant(record.grant_id);
+    return undefined;
+  }
+
+  // Keep the rotated token until it expires so a replay can be detected
+  store.put('refreshTokens', tokenHash, { ...record, rotated_at: Date.now() });
+
+  const grant = grantOf(record);
+  return {
+    accessToken: createAccessToken(grant),
+    refreshToken: createRefreshToken(grant),
+    scope: grant.scope,
+  };
+}
+
+// Look up a valid (unexpired) access token record
+export function getAccessToken(token: string): AccessToken | undefined {
+  if (!token) return undefined;
+  const tokenHash = hashSecret(token);
+  const accessToken = store.get('accessTokens', tokenHash);
+  if (!accessToken) return undefined;
   if (accessToken.expires_at < Date.now()) {
-    accessTokens.delete(token);
-    return false;
+    store.delete('accessTokens', tokenHash);
+    return undefined;
+  }
+  return accessToken;
+}
+
+export function validateAccessToken(token: string): boolean {
+  return getAccessToken(token) !== undefined;
+}
+
+// Find an unexpired token of either type, honouring the RFC 7009/7662 token_type_hint
+function findToken(
+  token: string,
+  hint?: string
+): { type: 'access_token'; record: AccessToken } | { type: 'refresh_token'; record: RefreshToken } | undefined {
+  if (!token) return undefined;
+  const tokenHash = hashSecret(token);
+  const now = Date.now();
+
+  const lookups = [
+    () => {
+      const record = store.get('accessTokens', tokenHash);
+      return record && record.expires_at >= now ? { type: 'access_token' as const, record } : undefined;
+    },
+    () => {
+      const record = store.get('refreshTokens', tokenHash);
+      return record && record.expires_at >= now ? { type: 'refresh_token' as const, record } : undefined;
+    },
+  ];
+  if (hint === 'refresh_token') lookups.reverse();
+
+  for (const lookup of lookups) {
+    const found = lookup();
+    if (found) return found;
   }
-  return true;
+  return undefined;
 }
 
-export function validatePin(pin: string): boolean {
-  return pin === PIN;
+/**
+ * Token revocation (RFC 7009). Revoking a refresh token revokes its whole grant.
+ * Unknown tokens are ignored, as the spec requires.
+ */
+export function revokeToken(token: string, tokenTypeHint?: string, clientId?: string): void {
+  const found = findToken(token, tokenTypeHint);
+  if (!found) return;
+  if (clientId && found.record.client_id !== clientId) return;
+
+  if (found.type === 'refresh_token') {
+    revokeGrant(found.record.grant_id);
+  } else {
+    store.delete('accessTokens', found.record.token_hash);
+  }
+  console.log(`Revoked ${found.type} for client: ${found.record.client_id}`);
+}
+
+/**
+ * Token introspection (RFC 7662)
+ */
+export function introspectToken(token: string, tokenTypeHint?: string): Record<string, unknown> {
+  const found = findToken(token, tokenTypeHint);
+  if (!found || (found.type === 'refresh_token' && found.record.rotated_at)) {
+    return { active: false };
+  }
+  const client = store.get('clients', found.record.client_id);
+  return {
+    active: true,
+    client_id: found.record.client_id,
+    client_name: client?.client_name,
+    token_type: found.type === 'access_token' ? 'Bearer' : 'refresh_token',
+    exp: Math.floor(found.record.expires_at / 1000),
+    grant_id: found.record.grant_id,
+    scope: found.record.scope,
+    username: found.record.user,
+  };
+}
+
+export interface GrantInfo {
+  grant_id: string;
+  client_id: string;
+  client_name?: string;
+  scope?: string;
+  user?: string;
+  access_token_expires_at?: number;
+  refresh_token_expires_at?: number;
+}
+
+/**
+ * List active grants (one per device login), optionally for a single client and/or user
+ */
+export function listGrants(clientId?: string, user?: string): GrantInfo[] {
+  const grants = new Map<string, GrantInfo>();
+  const now = Date.now();
+
+  const grantFor = (record: AccessToken | RefreshToken): GrantInfo => {
+    let grant = grants.get(record.grant_id);
+    if (!grant) {
+      grant = {
+        grant_id: record.grant_id,
+        client_id: record.client_id,
+        client_name: store.get('clients', record.client_id)?.client_name,
+        scope: record.scope,
+        user: record.user,
+      };
+      grants.set(record.grant_id, grant);
+    }
+    return grant;
+  };
+
+  const matches = (token: TokenGrant) =>
+    (!clientId || token.client_id === clientId) && (!user || (token.user ?? OWNER_USERNAME) === user);
+
+  for (const token of store.list('accessTokens')) {
+    if (token.expires_at < now || !matches(token)) continue;
+    const grant = grantFor(token);
+    grant.access_token_expires_at = Math.max(grant.access_token_expires_at || 0, token.expires_at);
+  }
+  for (const token of store.list('refreshTokens')) {
+    if (token.expires_at < now || token.rotated_at || !matches(token)) continue;
+    const grant = grantFor(token);
+    grant.refresh_token_expires_at = Math.max(grant.refresh_token_expires_at || 0, token.expires_at);
+  }
+
+  return Array.from(grants.values());
+}
+
+/**
+ * Revoke every grant, or every grant for one client ("sign out all devices").
+ * Returns the number of grants revoked.
+ */
+export function revokeAllGrants(clientId?: string, exceptGrantId?: string, user?: string): number {
+  const grants = listGrants(clientId, user).filter(grant => grant.grant_id !== exceptGrantId);
+  for (const grant of grants) {
+    revokeGrant(grant.grant_id);
+  }
+  return grants.length;
+}
+
+export function validatePin(pin: string, account: UserAccount): boolean {
+  // Compare fixed-length digests so the comparison time does not leak the PIN
+  const expected = account.pin_sha256
+    ? Buffer.from(account.pin_sha256, 'hex')
+    : crypto.createHash('sha256').update(account.pin ?? '').digest();
+  const actual = crypto.createHash('sha256').update(String(pin ?? '')).digest();
+  if (expected.length !== actual.length || (!account.pin && !account.pin_sha256)) return false;
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Check the credentials submitted on the authorize page against AUTH_MODE.
+ * Returns the authenticated username, or undefined.
+ */
+export function validateLogin(username?: string, pin?: string, totp?: string): string | undefined {
+  const account: UserAccount | undefined = MULTI_USER
+    ? findUser(String(username ?? '').trim())
+    : { username: OWNER_USERNAME, pin: PIN, totp_secret: totpSetup?.secret };
+  if (!account) return undefined;
+
+  // Evaluate both so a wrong PIN does not skip the TOTP check (and vice versa), but only use up
+  // the code once the whole login succeeds, so a mistyped PIN does not burn a valid code
+  const pinOk = !usesPin || validatePin(pin ?? '', account);
+  const totpStep = usesTotp && account.totp_secret ? matchTotp(account.totp_secret, totp ?? '') : undefined;
+  const totpOk = !usesTotp || totpStep !== undefined;
+  if (!pinOk || !totpOk) return undefined;
+
+  if (totpStep !== undefined) markTotpUsed(account.totp_secret!, totpStep);
+  return account.username;
 }
 
-// Generate the HTML form for PIN entry
+// Generate the HTML form for PIN and/or TOTP entry, with a consent list of tool groups
 export function getAuthorizePage(
   clientId: string,
   redirectUri: string,
   state?: string,
   codeChallenge?: string,
   codeChallengeMethod?: string,
+  scopes: Scope[] = ALL_SCOPES,
   error?: string
 ): string {
+  const scopeOptions = ALL_SCOPES.map(
+    scope => `
+    <label class="scope">
+      <input type="checkbox" name="scope" value="${scope}"${scopes.includes(scope) ? ' checked' : ''}>
+      <strong>${SCOPES[scope].label}</strong> - ${SCOPES[scope].description}
+    </label>`
+  ).join('');
+  const credentialLabel = (MULTI_USER ? 'username and ' : '') + (AUTH_MODE === 'both' ? 'PIN and authenticator code' : usesTotp ? 'authenticator code' : 'PIN');
   return `
 <!DOCTYPE html>
 <html>
@@ -152,11 +418,14 @@ export function getAuthorizePage(
     button:hover { background: #0056b3; }
     .error { color: red; margin-bottom: 10px; }
     h1 { font-size: 24px; }
+    fieldset { border: 1px solid #ccc; margin: 8px 0; padding: 8px 12px; }
+    .scope { display: block; margin: 8px 0; }
+    .scope input { width: auto; margin: 0 6px 0 0; }
   </style>
 </head>
 <body>
   <h1>Voice MCP Server</h1>
-  <p>Enter your PIN to authorize Claude to execute commands on this VM.</p>
+  <p>Enter your ${credentialLabel} to authorize Claude to execute commands on this VM.</p>
   ${error ? `<p class="error">${error}</p>` : ''}
   <form method="POST" action="/oauth/authorize">
     <input type="hidden" name="client_id" value="${clientId}">
@@ -164,7 +433,12 @@ export function getAuthorizePage(
     <input type="hidden" name="state" value="${state || ''}">
     <input type="hidden" name="code_challenge" value="${codeChallenge || ''}">
     <input type="hidden" name="code_challenge_method" value="${codeChallengeMethod || ''}">
-    <input type="password" name="pin" placeholder="Enter PIN" required autofocus>
+    <fieldset>
+      <legend>Allow Claude to:</legend>${scopeOptions}
+    </fieldset>
+    ${MULTI_USER ? '<input type="text" name="username" placeholder="Username" autocomplete="username" autocapitalize="none" required autofocus>' : ''}
+    ${usesPin ? `<input type="password" name="pin" placeholder="Enter PIN" required${MULTI_USER ? '' : ' autofocus'}>` : ''}
+    ${usesTotp ? `<input type="text" name="totp" placeholder="6-digit authenticator code" inputmode="numeric" pattern="[0-9]{6}" maxlength="6" autocomplete="one-time-code" required${usesPin || MULTI_USER ? '' : ' autofocus'}>` : ''}
     <button type="submit">Authorize</button>
   </form>
 </body>
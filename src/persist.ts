@@ -0,0 +1,87 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Directory for server state (OAuth store, task registry, logs)
+export const DATA_DIR = process.env.MCP_DATA_DIR || path.join(os.homedir(), '.voice-mcp');
+
+/**
+ * Resolve a path inside the data directory, creating the directory if needed
+ */
+export function dataPath(...parts: string[]): string {
+  const full = path.join(DATA_DIR, ...parts);
+  fs.mkdirSync(path.dirname(full), { recursive: true, mode: 0o700 });
+  return full;
+}
+
+/**
+ * Read a JSON file, returning the fallback if it is missing or unreadable
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Failed to read ${filePath}: ${error}`);
+    }
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON file atomically (write to temp file, then rename)
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Read the last `lines` lines of a text file, scanning at most maxBytes from the end.
+ * Returns undefined if the file does not exist.
+ */
+export function readFileTail(filePath: string, lines: number, maxBytes: number = 1024 * 1024): string | undefined {
+  let fd: number;
+  try {
+    fd = fs.openSync(filePath, 'r');
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const size = fs.fstatSync(fd).size;
+    const length = Math.min(size, maxBytes);
+    const buffer = Buffer.alloc(length);
+    fs.readSync(fd, buffer, 0, length, size - length);
+    const text = buffer.toString('utf8').replace(/\n$/, '');
+    return text.split('\n').slice(-lines).join('\n');
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Read complete lines appended to a file since a byte offset.
+ * Returns the new text and the offset just past the last complete line.
+ */
+export function readNewLines(filePath: string, offset: number): { text: string; offset: number } {
+  let fd: number;
+  try {
+    fd = fs.openSync(filePath, 'r');
+  } catch {
+    return { text: '', offset };
+  }
+
+  try {
+    const size = fs.fstatSync(fd).size;
+    if (size <= offset) return { text: '', offset: Math.min(offset, size) };
+    const buffer = Buffer.alloc(size - offset);
+    fs.readSync(fd, buffer, 0, buffer.length, offset);
+    const end = buffer.lastIndexOf(0x0a) + 1; // Stop after the last newline
+    return { text: buffer.subarray(0, end).toString('utf8'), offset: offset + end };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
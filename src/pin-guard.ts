@@ -0,0 +1,132 @@
+// Brute-force protection for the PIN form: per-IP, per-client and per-user exponential
+// backoff, plus a global lockout that only a restart or an admin reset clears.
+
+const FREE_ATTEMPTS = parseInt(process.env.PIN_FREE_ATTEMPTS || '', 10) || 3;
+const BACKOFF_BASE_SECONDS = parseInt(process.env.PIN_BACKOFF_BASE_SECONDS || '', 10) || 2;
+const BACKOFF_MAX_SECONDS = parseInt(process.env.PIN_BACKOFF_MAX_SECONDS || '', 10) || 60 * 60;
+const MAX_FAILURES = parseInt(process.env.PIN_MAX_FAILURES || '', 10) || 20;
+
+// Counters idle for this long are forgotten, and older failures stop counting towards the lockout
+const COUNTER_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface AttemptCounter {
+  failures: number;
+  blockedUntil: number;
+  lastFailure: number;
+}
+
+const ipCounters = new Map<string, AttemptCounter>();
+const clientCounters = new Map<string, AttemptCounter>();
+const userCounters = new Map<string, AttemptCounter>(); // By the username tried; '' in single-user mode
+
+// Times of recent failures across all IPs, clients and users. A successful login does not clear
+// them, so one valid account cannot keep lifting the lockout while others are being guessed.
+let globalFailures: number[] = [];
+let lockedOut = false;
+
+function recentGlobalFailures(): number {
+  const cutoff = Date.now() - COUNTER_TTL_MS;
+  globalFailures = globalFailures.filter(time => time > cutoff);
+  return globalFailures.length;
+}
+
+function getCounter(counters: Map<string, AttemptCounter>, key: string): AttemptCounter | undefined {
+  const counter = counters.get(key);
+  if (counter && Date.now() - counter.lastFailure > COUNTER_TTL_MS) {
+    counters.delete(key);
+    return undefined;
+  }
+  return counter;
+}
+
+function bumpCounter(counters: Map<string, AttemptCounter>, key: string): AttemptCounter {
+  const counter = getCounter(counters, key) || { failures: 0, blockedUntil: 0, lastFailure: 0 };
+  counter.failures++;
+  counter.lastFailure = Date.now();
+  if (counter.failures >= FREE_ATTEMPTS) {
+    const exponent = counter.failures - FREE_ATTEMPTS;
+    const delaySeconds = Math.min(BACKOFF_BASE_SECONDS * 2 ** exponent, BACKOFF_MAX_SECONDS);
+    counter.blockedUntil = Date.now() + delaySeconds * 1000;
+  }
+  counters.set(key, counter);
+  return counter;
+}
+
+/**
+ * Check whether a PIN attempt from this IP/client for this user may be evaluated right now
+ */
+export function checkPinAttempt(
+  ip: string,
+  clientId: string,
+  username: string
+): { allowed: true } | { allowed: false; reason: string; retryAfterSeconds?: number } {
+  if (lockedOut) {
+    return {
+      allowed: false,
+      reason: 'Authorization is locked after too many failed attempts. Restart the server or reset the lockout.',
+    };
+  }
+
+  const now = Date.now();
+  const blockedUntil = Math.max(
+    getCounter(ipCounters, ip)?.blockedUntil || 0,
+    getCounter(clientCounters, clientId)?.blockedUntil || 0,
+    getCounter(userCounters, username)?.blockedUntil || 0
+  );
+  if (blockedUntil > now) {
+    const retryAfterSeconds = Math.ceil((blockedUntil - now) / 1000);
+    return {
+      allowed: false,
+      reason: `Too many failed attempts. Try again in ${retryAfterSeconds} seconds.`,
+      retryAfterSeconds,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Record a failed PIN attempt and log it
+ */
+export function recordPinFailure(ip: string, clientId: string, username: string): void {
+  const ipCounter = bumpCounter(ipCounters, ip);
+  const clientCounter = bumpCounter(clientCounters, clientId);
+  const userCounter = bumpCounter(userCounters, username);
+  globalFailures.push(Date.now());
+  const total = recentGlobalFailures();
+
+  console.warn(
+    `${new Date().toISOString()} FAILED PIN attempt from ${ip} for client ${clientId}${username ? ` as ${username}` : ''} ` +
+      `(ip failures: ${ipCounter.failures}, client failures: ${clientCounter.failures}, ` +
+      `user failures: ${userCounter.failures}, total: ${total}/${MAX_FAILURES})`
+  );
+
+  if (total >= MAX_FAILURES && !lockedOut) {
+    lockedOut = true;
+    console.error(`PIN authorization LOCKED after ${total} failed attempts`);
+  }
+}
+
+/**
+ * Record a successful PIN attempt, clearing only the counter for the user who signed in.
+ * The IP, client and global counters keep counting, since the same caller may be guessing other PINs.
+ */
+export function recordPinSuccess(username: string): void {
+  userCounters.delete(username);
+}
+
+/**
+ * Clear the global lockout and all counters (admin action)
+ */
+export function resetPinLockout(): void {
+  ipCounters.clear();
+  clientCounters.clear();
+  userCounters.clear();
+  globalFailures = [];
+  lockedOut = false;
+  console.log('PIN lockout reset');
+}
+
+export function getPinLockoutStatus(): { lockedOut: boolean; failures: number; maxFailures: number } {
+  return { lockedOut, failures: recentGlobalFailures(), maxFailures: MAX_FAILURES };
+}
@@ -0,0 +1,180 @@
+import path from 'path';
+import { DATA_DIR, readJsonFile } from './persist.js';
+import { isWithinWorkspace } from './users.js';
+
+// Command policy: ordered allow/deny/confirm rules checked before commands run
+
+export type PolicyAction = 'allow' | 'deny' | 'confirm';
+
+// Tools the policy is consulted for
+export type PolicyTool =
+  | 'execute_command'
+  | 'tmux_send'
+  | 'send_job_input'
+  | 'start_claude_code_task'
+  | 'continue_claude_code_task'
+  | 'stop_claude_code_task'
+  | 'kill_job'
+  | 'discard_claude_code_changes';
+
+export interface PolicyRule {
+  action: PolicyAction;
+  pattern?: string; // Regex tested against the whole command line
+  argv?: string[]; // Matches any simple command in the line starting with these words
+  directory?: string; // Only applies when the working directory is inside this one
+  tools?: PolicyTool[]; // Only applies to these tools (default: all)
+  reason?: string; // Explanation read back to the user when denied or confirming
+}
+
+export interface Policy {
+  default: PolicyAction; // Outcome when no rule matches
+  rules: PolicyRule[];
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  reason?: string;
+  rule?: number; // Index of the matching rule
+}
+
+const POLICY_FILE = process.env.MCP_POLICY_FILE || path.join(DATA_DIR, 'policy.json');
+
+// Used when no policy file exists: block the obviously catastrophic, confirm anything destructive
+const DEFAULT_POLICY: Policy = {
+  default: 'allow',
+  rules: [
+    {
+      action: 'deny',
+      pattern: '\\brm\\s+(-\\S+\\s+)*(/|~|\\$HOME)/?\\*?(\\s|$|;|&|\\|)',
+      reason: 'Deleting the root or home directory is not allowed.',
+    },
+    {
+      action: 'deny',
+      pattern: '\\bmkfs(\\.\\w+)?\\b|\\bdd\\b.*\\bof=/dev/',
+      reason: 'Formatting or overwriting disks is not allowed.',
+    },
+    {
+      action: 'confirm',
+      pattern: '\\bgit\\s+push\\b.*\\s(--force(-with-lease)?|-f)\\b',
+      reason: 'This force-pushes and can overwrite commits on the remote.',
+    },
+    { action: 'confirm', argv: ['rm'], reason: 'This deletes files.' },
+    {
+      action: 'confirm',
+      pattern: '\\bgit\\s+(reset\\s+--hard|clean\\s+-\\S*f)',
+      reason: 'This throws away uncommitted changes.',
+    },
+    {
+      action: 'confirm',
+      pattern: '\\btmux\\s+kill-(session|server|window|pane)\\b',
+      reason: 'This kills a tmux session and whatever is running in it.',
+    },
+    { action: 'confirm', tools: ['stop_claude_code_task'], reason: 'This stops a Claude Code task partway through.' },
+    { action: 'confirm', tools: ['kill_job'], reason: 'This kills a background job and everything it started.' },
+    {
+      action: 'confirm',
+      tools: ['discard_claude_code_changes'],
+      reason: "This deletes the task's worktree and branch, and its changes with them.",
+    },
+    { action: 'confirm', argv: ['shutdown'], reason: 'This shuts the machine down.' },
+    { action: 'confirm', argv: ['reboot'], reason: 'This reboots the machine.' },
+  ],
+};
+
+/**
+ * Load the policy, re-reading the file on each call so edits apply without a restart
+ */
+export function loadPolicy(): Policy {
+  const policy = readJsonFile<Policy>(POLICY_FILE, DEFAULT_POLICY);
+  return { default: policy.default || 'allow', rules: policy.rules || [] };
+}
+
+/**
+ * Split a command line into the argv of each simple command (split on ; && || | and newlines),
+ * dropping leading sudo and VAR=value assignments. Quotes are honoured; expansions are not.
+ */
+export function parseCommandLine(command: string): string[][] {
+  const commands: string[][] = [];
+  let words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: string | undefined;
+
+  const endWord = () => {
+    if (inWord) words.push(word);
+    word = '';
+    inWord = false;
+  };
+  const endCommand = () => {
+    endWord();
+    while (words.length && (words[0] === 'sudo' || /^\w+=/.test(words[0]))) words.shift();
+    if (words.length) commands.push(words);
+    words = [];
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+      else if (char === '\\' && quote === '"' && i + 1 < command.length) word += command[++i];
+      else word += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      word += command[++i];
+      inWord = true;
+    } else if (char === ';' || char === '|' || char === '&' || char === '\n') {
+      endCommand();
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  endCommand();
+
+  return commands;
+}
+
+function ruleMatches(rule: PolicyRule, tool: PolicyTool, command: string | undefined, cwd: string | undefined): boolean {
+  if (rule.tools && !rule.tools.includes(tool)) return false;
+  if (rule.directory && !(cwd && isWithinWorkspace(rule.directory, cwd))) return false;
+
+  if (rule.pattern) {
+    if (command === undefined) return false;
+    try {
+      if (!new RegExp(rule.pattern).test(command)) return false;
+    } catch (error) {
+      console.error(`Invalid pattern in command policy: ${rule.pattern}: ${error}`);
+      return false;
+    }
+  }
+
+  if (rule.argv) {
+    if (command === undefined) return false;
+    const argv = rule.argv;
+    const matched = parseCommandLine(command).some(words => argv.every((arg, index) => words[index] === arg));
+    if (!matched) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Decide whether a command (or, for starting and continuing Claude Code tasks, a working directory) may run.
+ * The first matching rule wins.
+ */
+export function evaluatePolicy(tool: PolicyTool, command: string | undefined, cwd: string | undefined): PolicyDecision {
+  const policy = loadPolicy();
+  const resolvedCwd = cwd ? path.resolve(cwd) : undefined;
+
+  for (let index = 0; index < policy.rules.length; index++) {
+    const rule = policy.rules[index];
+    if (ruleMatches(rule, tool, command, resolvedCwd)) {
+      return { action: rule.action, reason: rule.reason, rule: index };
+    }
+  }
+  return { action: policy.default };
+}
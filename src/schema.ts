@@ -0,0 +1,110 @@
+// Validation of tool arguments against the JSON Schema subset used by the tools' inputSchema:
+// type, enum, properties, required, additionalProperties, items, default, minimum, maximum and minLength
+
+export interface JsonSchema {
+  type?: string; // object, array, string, number, integer or boolean
+  description?: string;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+// Where a violation is, e.g. "lines" or "env.PATH"; the value itself is named by root, e.g. "arguments"
+function describePath(path: string, root: string): string {
+  return path || root;
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, root: string, errors: string[]): unknown {
+  const where = describePath(path, root);
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    errors.push(`${where} must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}, got ${typeOf(value)}`);
+    return value;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${where} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${where} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${where} must be at most ${schema.maximum}`);
+    }
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(
+      schema.minLength === 1 ? `${where} must not be empty` : `${where} must be at least ${schema.minLength} characters`
+    );
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item, index) => check(schema.items!, item, `${where}[${index}]`, root, errors));
+  }
+
+  if (typeOf(value) === 'object') {
+    const input = value as Record<string, unknown>;
+    // No prototype, so keys such as __proto__ are stored as plain properties
+    const output: Record<string, unknown> = Object.create(null);
+    const properties = schema.properties || {};
+    const prefix = path ? `${path}.` : '';
+
+    for (const key of schema.required || []) {
+      if (!Object.hasOwn(input, key) || input[key] === undefined) errors.push(`${prefix}${key} is required`);
+    }
+
+    for (const [key, item] of Object.entries(input)) {
+      if (item === undefined) continue;
+      if (Object.hasOwn(properties, key)) {
+        output[key] = check(properties[key], item, `${prefix}${key}`, root, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${prefix}${key} is not a known property`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        output[key] = check(schema.additionalProperties, item, `${prefix}${key}`, root, errors);
+      } else {
+        output[key] = item;
+      }
+    }
+
+    for (const [key, property] of Object.entries(properties)) {
+      if (output[key] === undefined && property.default !== undefined) output[key] = property.default;
+    }
+    return output;
+  }
+
+  return value;
+}
+
+/**
+ * Check a value against a schema. Returns a copy with declared defaults filled in for missing
+ * properties, and every violation found, so a caller can report them all at once.
+ * root names the value itself in error messages.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  root: string = 'arguments'
+): { value: unknown; errors: string[] } {
+  const errors: string[] = [];
+  const checked = check(schema, value, '', root, errors);
+  return { value: checked, errors };
+}
@@ -0,0 +1,52 @@
+// OAuth scopes, each granting a group of MCP tools
+
+export type Scope = 'read' | 'tmux' | 'shell' | 'claude-code';
+
+export const SCOPES: Record<Scope, { label: string; description: string }> = {
+  read: {
+    label: 'Read',
+    description: 'View tmux panes and Claude Code task status and output',
+  },
+  tmux: {
+    label: 'Tmux',
+    description: 'Type keys into tmux sessions',
+  },
+  shell: {
+    label: 'Shell',
+    description: 'Run any shell command on this VM',
+  },
+  'claude-code': {
+    label: 'Claude Code',
+    description: 'Start, message and stop Claude Code tasks',
+  },
+};
+
+export const ALL_SCOPES = Object.keys(SCOPES) as Scope[];
+
+// Legacy scope advertised in the protected resource metadata; grants everything
+const FULL_ACCESS_SCOPE = 'mcp';
+
+export const SUPPORTED_SCOPES = [...ALL_SCOPES, FULL_ACCESS_SCOPE];
+
+/**
+ * Parse a space-delimited scope string (or form checkbox values) into known scopes.
+ * 'mcp' expands to every scope; unknown values are dropped.
+ */
+export function parseScopes(value: string | string[] | undefined): Scope[] {
+  const values = (Array.isArray(value) ? value : String(value ?? '').split(' '))
+    .map(scope => scope.trim())
+    .filter(Boolean);
+  if (values.includes(FULL_ACCESS_SCOPE)) return [...ALL_SCOPES];
+  return ALL_SCOPES.filter(scope => values.includes(scope));
+}
+
+export function formatScopes(scopes: Scope[]): string {
+  return scopes.join(' ');
+}
+
+/**
+ * Scopes granted by a stored token. Tokens issued before scopes existed carry none and keep full access.
+ */
+export function grantedScopes(scope: string | undefined): Scope[] {
+  return scope === undefined ? [...ALL_SCOPES] : parseScopes(scope);
+}
@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+
+// MCP sessions (Mcp-Session-Id), created on initialize and kept in memory.
+// After a restart clients get 404 for their old session and re-initialize.
+
+// Sessions unused for this long are dropped
+const SESSION_IDLE_SECONDS = parseInt(process.env.MCP_SESSION_IDLE_SECONDS || '', 10) || 24 * 3600;
+
+export interface McpSession {
+  sessionId: string;
+  grantId: string; // Sessions are only valid with tokens from the grant that created them
+  user: string;
+  protocolVersion: string;
+  clientCapabilities: Record<string, unknown>;
+  clientInfo?: { name?: string; version?: string };
+  createdAt: number;
+  lastSeenAt: number;
+  lastTaskId?: string; // Last Claude Code task started in this conversation
+}
+
+const sessions = new Map<string, McpSession>();
+
+function sweepSessions(): void {
+  const cutoff = Date.now() - SESSION_IDLE_SECONDS * 1000;
+  for (const [sessionId, session] of sessions) {
+    if (session.lastSeenAt < cutoff) sessions.delete(sessionId);
+  }
+}
+
+export function createSession(grantId: string, user: string, protocolVersion: string): McpSession {
+  sweepSessions();
+  const now = Date.now();
+  const session: McpSession = {
+    sessionId: crypto.randomUUID(),
+    grantId,
+    user,
+    protocolVersion,
+    clientCapabilities: {},
+    createdAt: now,
+    lastSeenAt: now,
+  };
+  sessions.set(session.sessionId, session);
+  return session;
+}
+
+/**
+ * Look up a session for a request, touching it. Undefined if unknown, expired or from another grant.
+ */
+export function getSession(sessionId: string, grantId: string): McpSession | undefined {
+  const session = sessions.get(sessionId);
+  if (!session || session.grantId !== grantId) return undefined;
+  if (session.lastSeenAt < Date.now() - SESSION_IDLE_SECONDS * 1000) {
+    sessions.delete(sessionId);
+    return undefined;
+  }
+  session.lastSeenAt = Date.now();
+  return session;
+}
+
+export function deleteSession(sessionId: string, grantId: string): boolean {
+  if (!getSession(sessionId, grantId)) return false;
+  return sessions.delete(sessionId);
+}
@@ -0,0 +1,92 @@
+import express from 'express';
+
+// Server-Sent Events for the Streamable HTTP transport: per-request streams and standalone GET channels
+
+// Comment lines sent this often keep proxies from closing idle streams
+const KEEPALIVE_MS = 15000;
+
+// Events kept per user for Last-Event-ID replay on the GET channel
+const MAX_HISTORY = 200;
+
+export interface EventStream {
+  send(message: unknown, eventId?: string): void;
+  close(): void;
+  closed(): boolean;
+}
+
+/**
+ * Switch a response to text/event-stream. Messages are sent as `message` events.
+ */
+export function openEventStream(res: express.Response): EventStream {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+  res.on('close', () => {
+    closed = true;
+    clearInterval(keepalive);
+  });
+
+  return {
+    send(message, eventId) {
+      if (closed) return;
+      const id = eventId ? `id: ${eventId}\n` : '';
+      res.write(`${id}event: message\ndata: ${JSON.stringify(message)}\n\n`);
+    },
+    close() {
+      clearInterval(keepalive);
+      closed = true;
+      res.end();
+    },
+    closed: () => closed,
+  };
+}
+
+interface Channel {
+  user: string;
+  grantId: string;
+  stream: EventStream;
+}
+
+const channels = new Set<Channel>();
+const history = new Map<string, Array<{ id: number; message: unknown }>>();
+let nextEventId = 1;
+
+/**
+ * Attach a standalone GET stream for server-initiated messages, replaying anything
+ * the client missed after lastEventId
+ */
+export function openChannel(res: express.Response, user: string, grantId: string, lastEventId?: string): void {
+  const stream = openEventStream(res);
+  const channel: Channel = { user, grantId, stream };
+
+  const after = parseInt(lastEventId || '', 10);
+  if (!Number.isNaN(after)) {
+    for (const event of history.get(user) || []) {
+      if (event.id > after) stream.send(event.message, String(event.id));
+    }
+  }
+
+  channels.add(channel);
+  res.on('close', () => channels.delete(channel));
+}
+
+/**
+ * Send a message to every open GET channel of a user, keeping it for replay.
+ * `include` can skip channels, e.g. by their grant's log level.
+ */
+export function broadcast(user: string, message: unknown, include: (grantId: string) => boolean = () => true): void {
+  const id = nextEventId++;
+  const events = history.get(user) || [];
+  events.push({ id, message });
+  history.set(user, events.slice(-MAX_HISTORY));
+
+  for (const channel of channels) {
+    if (channel.user === user && include(channel.grantId)) channel.stream.send(message, String(id));
+  }
+}
@@ -0,0 +1,225 @@
+import path from 'path';
+
+// Parser for Claude Code's `--output-format stream-json` transcript
+
+export type TaskEvent =
+  | { type: 'init'; timestamp: number; sessionId?: string; model?: string }
+  | { type: 'assistant_message'; timestamp: number; text: string }
+  | { type: 'tool_use'; timestamp: number; tool: string; description: string; filePath?: string }
+  | { type: 'error'; timestamp: number; message: string }
+  | {
+      type: 'result';
+      timestamp: number;
+      success: boolean;
+      result: string;
+      costUsd?: number;
+      durationMs?: number;
+      numTurns?: number;
+      sessionId?: string;
+    }
+  | { type: 'raw'; timestamp: number; text: string }; // Non-JSON output, usually stderr
+
+// Tools whose file_path argument is modified rather than just read
+const FILE_WRITING_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+
+// Keep descriptions short enough to read aloud
+function truncate(text: string, max: number = 80): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > max ? `${oneLine.substring(0, max - 3)}...` : oneLine;
+}
+
+// Show paths inside the working directory relative to it
+function displayPath(filePath: string, workingDirectory: string): string {
+  const relative = path.relative(workingDirectory, filePath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : filePath;
+}
+
+/**
+ * Describe a tool call as a short plain-English step
+ */
+function describeToolUse(tool: string, input: Record<string, unknown>, workingDirectory: string): string {
+  const filePath = (input.file_path || input.notebook_path) as string | undefined;
+  const file = filePath ? displayPath(filePath, workingDirectory) : undefined;
+
+  switch (tool) {
+    case 'Read':
+      return `Reading ${file}`;
+    case 'Write':
+      return `Writing ${file}`;
+    case 'Edit':
+    case 'MultiEdit':
+    case 'NotebookEdit':
+      return `Editing ${file}`;
+    case 'Bash':
+      return `Running ${truncate(String(input.description || input.command || 'a command'))}`;
+    case 'Grep':
+      return `Searching the code for "${truncate(String(input.pattern || ''), 40)}"`;
+    case 'Glob':
+      return `Finding files matching ${input.pattern}`;
+    case 'LS':
+      return `Listing ${input.path ? displayPath(String(input.path), workingDirectory) : 'files'}`;
+    case 'TodoWrite':
+      return 'Updating its todo list';
+    case 'WebFetch':
+      return `Fetching ${input.url}`;
+    case 'WebSearch':
+      return `Searching the web for "${truncate(String(input.query || ''), 40)}"`;
+    case 'Task':
+      return `Delegating: ${truncate(String(input.description || 'a subtask'))}`;
+    default:
+      return `Using the ${tool} tool`;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Fields of a transcript message, or undefined when missing or of another type
+function stringField(record: Record<string, unknown>, key: string): string | undefined {
+  return typeof record[key] === 'string' ? (record[key] as string) : undefined;
+}
+
+function numberField(record: Record<string, unknown>, key: string): number | undefined {
+  return typeof record[key] === 'number' ? (record[key] as number) : undefined;
+}
+
+// The content blocks of an assistant or user message
+function contentBlocks(message: Record<string, unknown>): Record<string, unknown>[] {
+  const inner = message.message;
+  if (!isRecord(inner) || !Array.isArray(inner.content)) return [];
+  return inner.content.filter(isRecord);
+}
+
+/**
+ * Parse one transcript line into zero or more events
+ */
+export function parseStreamJsonLine(line: string, workingDirectory: string): TaskEvent[] {
+  const trimmed = line.trim();
+  if (!trimmed) return [];
+  const timestamp = Date.now();
+
+  let message: unknown;
+  try {
+    message = JSON.parse(trimmed);
+  } catch {
+    return [{ type: 'raw', timestamp, text: trimmed }];
+  }
+  if (!isRecord(message)) {
+    return [{ type: 'raw', timestamp, text: trimmed }];
+  }
+
+  switch (message.type) {
+    case 'system':
+      if (message.subtype === 'init') {
+        return [
+          {
+            type: 'init',
+            timestamp,
+            sessionId: stringField(message, 'session_id'),
+            model: stringField(message, 'model'),
+          },
+        ];
+      }
+      return [];
+
+    case 'assistant': {
+      const events: TaskEvent[] = [];
+      for (const block of contentBlocks(message)) {
+        const text = stringField(block, 'text')?.trim();
+        if (block.type === 'text' && text) {
+          events.push({ type: 'assistant_message', timestamp, text });
+        } else if (block.type === 'tool_use') {
+          const tool = stringField(block, 'name') || 'unknown';
+          const input = isRecord(block.input) ? block.input : {};
+          const filePath = stringField(input, 'file_path') || stringField(input, 'notebook_path');
+          events.push({
+            type: 'tool_use',
+            timestamp,
+            tool,
+            description: describeToolUse(tool, input, workingDirectory),
+            filePath,
+          });
+        }
+      }
+      return events;
+    }
+
+    case 'user': {
+      // Tool results only matter to us when they report an error
+      const events: TaskEvent[] = [];
+      for (const block of contentBlocks(message)) {
+        if (block.type === 'tool_result' && block.is_error) {
+          const content = typeof block.content === 'string' ? block.content : JSON.stringify(block.content);
+          events.push({ type: 'error', timestamp, message: truncate(content, 300) });
+        }
+      }
+      return events;
+    }
+
+    case 'result':
+      return [
+        {
+          type: 'result',
+          timestamp,
+          success: message.subtype === 'success' && !message.is_error,
+          result: String(message.result ?? message.subtype ?? ''),
+          costUsd: numberField(message, 'total_cost_usd') ?? numberField(message, 'cost_usd'),
+          durationMs: numberField(message, 'duration_ms'),
+          numTurns: numberField(message, 'num_turns'),
+          sessionId: stringField(message, 'session_id'),
+        },
+      ];
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Summary of a task's progress, folded from its events
+ */
+export interface TaskProgress {
+  sessionId?: string;
+  currentStep?: string;
+  filesTouched: string[];
+  finalAnswer?: string;
+  costUsd?: number;
+  durationMs?: number;
+  lastError?: string;
+}
+
+/**
+ * Fold one event into a progress summary
+ */
+export function applyTaskEvent(progress: TaskProgress, event: TaskEvent, workingDirectory: string): void {
+  switch (event.type) {
+    case 'init':
+      progress.sessionId = event.sessionId || progress.sessionId;
+      progress.currentStep = 'Starting up';
+      break;
+    case 'assistant_message':
+      progress.currentStep = `Said: ${truncate(event.text, 120)}`;
+      break;
+    case 'tool_use':
+      progress.currentStep = event.description;
+      if (event.filePath && FILE_WRITING_TOOLS.has(event.tool)) {
+        const file = displayPath(event.filePath, workingDirectory);
+        if (!progress.filesTouched.includes(file)) progress.filesTouched.push(file);
+      }
+      break;
+    case 'error':
+      progress.lastError = event.message;
+      break;
+    case 'result':
+      progress.finalAnswer = event.result;
+      progress.costUsd = event.costUsd;
+      progress.durationMs = event.durationMs;
+      progress.sessionId = event.sessionId || progress.sessionId;
+      progress.currentStep = event.success ? 'Finished' : 'Finished with an error';
+      if (!event.success) progress.lastError = event.result;
+      break;
+    case 'raw':
+      break;
+  }
+}
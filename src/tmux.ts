@@ -0,0 +1,98 @@
+import { execFile } from 'child_process';
+import { decodeCursor, encodeCursor } from './cursors.js';
+
+// Session names clients may target: tmux session, window and pane syntax, nothing else
+const SESSION_NAME_PATTERN = /^[\w.:-]+$/;
+
+/**
+ * Whether a client-supplied tmux target is safe to use. Empty means tmux's default session.
+ */
+export function isValidSessionName(session: string): boolean {
+  return session === '' || SESSION_NAME_PATTERN.test(session);
+}
+
+/**
+ * Run tmux with an argument list. No shell is involved, so session names and keys are passed as-is.
+ */
+export function runTmux(args: string[]): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  return new Promise(resolve => {
+    execFile('tmux', args, { maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      const exitCode = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+      // A missing tmux binary has no stderr, only the spawn error
+      const message = stderr.trim() || (error && typeof error.code !== 'number' ? error.message : '');
+      resolve({ stdout: stdout.trim(), stderr: message, exitCode });
+    });
+  });
+}
+
+// -t arguments for a session, or none for the default
+function targetArgs(session: string): string[] {
+  return session ? ['-t', session] : [];
+}
+
+/**
+ * Capture a tmux pane. Without a cursor returns the last `lines` lines; with a cursor
+ * returns only lines written since it. Always returns a cursor for the next read.
+ */
+export async function capturePane(
+  session: string,
+  lines: number,
+  cursorValue?: string
+): Promise<{ output: string; cursor?: string; truncated?: boolean; exitCode: number; error?: string }> {
+  if (!isValidSessionName(session)) {
+    return { output: '', exitCode: 1, error: `Invalid tmux session name: ${session}` };
+  }
+
+  // Absolute position of the cursor line: lines scrolled into history plus the cursor row
+  const position = await runTmux(['display-message', ...targetArgs(session), '-p', '#{history_size} #{cursor_y}']);
+  if (position.exitCode !== 0) {
+    return { output: '', exitCode: position.exitCode, error: position.stderr };
+  }
+  const [historySize, cursorY] = position.stdout.split(' ').map(Number);
+  const nextCursor = encodeCursor({ kind: 'pane', session, line: historySize + cursorY });
+
+  let start = -lines;
+  let truncated = false;
+  if (cursorValue) {
+    const cursor = decodeCursor(cursorValue);
+    if (!cursor || cursor.kind !== 'pane' || cursor.session !== session) {
+      return { output: '', exitCode: 1, error: 'Invalid cursor for this session' };
+    }
+
+    // Capture-pane lines are relative to the top of the visible pane (negative = history)
+    start = cursor.line - historySize;
+    if (start > cursorY) {
+      // The pane was cleared since the cursor was issued; start over from the visible screen
+      start = 0;
+    }
+    if (start < -historySize) {
+      // Some lines scrolled past the history limit
+      start = -historySize;
+      truncated = true;
+    }
+    if (cursorY - start + 1 > lines) {
+      start = cursorY - lines + 1;
+      truncated = true;
+    }
+  }
+
+  const end = cursorValue ? ['-E', String(cursorY)] : [];
+  const result = await runTmux(['capture-pane', ...targetArgs(session), '-p', '-S', String(start), ...end]);
+
+  return {
+    output: result.stdout,
+    cursor: nextCursor,
+    truncated: truncated || undefined,
+    exitCode: result.exitCode,
+    error: result.exitCode !== 0 ? result.stderr : undefined,
+  };
+}
+
+/**
+ * Working directory of the shell (or other program) in a pane, if tmux knows it
+ */
+export async function getPaneDirectory(session: string): Promise<string | undefined> {
+  if (!isValidSessionName(session)) return undefined;
+  const result = await runTmux(['display-message', ...targetArgs(session), '-p', '#{pane_current_path}']);
+  return result.exitCode === 0 && result.stdout ? result.stdout : undefined;
+}
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { dataPath, readJsonFile, writeJsonFile } from './persist.js';
+
+// TOTP (RFC 6238) with the authenticator-app defaults: SHA-1, 6 digits, 30 second steps
+const DIGITS = 6;
+const STEP_SECONDS = 30;
+const ISSUER = 'Voice MCP';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Compute the TOTP code for a base32 secret at a given time step (RFC 4226 HOTP)
+ */
+export function generateTotp(secret: string, step: number = Math.floor(Date.now() / 1000 / STEP_SECONDS)): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+// Last accepted time step per secret, so a code cannot be replayed
+const lastUsedStep = new Map<string, number>();
+
+/**
+ * Check a code, allowing one step of clock drift either way. Returns the time step it matches,
+ * or undefined if it is wrong or that step was already used. Pass the step to markTotpUsed once
+ * the login it belongs to has succeeded.
+ */
+export function matchTotp(secret: string, code: string, window: number = 1): number | undefined {
+  if (!/^\d{6}$/.test(String(code ?? '').trim())) return undefined;
+  const candidate = Buffer.from(String(code).trim());
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    const expected = Buffer.from(generateTotp(secret, step));
+    if (crypto.timingSafeEqual(expected, candidate)) {
+      return (lastUsedStep.get(secret) ?? -1) >= step ? undefined : step;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Record a matched step as used, so its code is accepted only once
+ */
+export function markTotpUsed(secret: string, step: number): void {
+  lastUsedStep.set(secret, step);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps import (usually via QR code)
+ */
+export function getOtpauthUri(secret: string, account: string = 'owner'): string {
+  const label = encodeURIComponent(`${ISSUER}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Load the server TOTP secret from MCP_TOTP_SECRET or the data directory,
+ * generating and saving a new one on first run
+ */
+export function loadOrCreateTotpSecret(): { secret: string; created: boolean } {
+  if (process.env.MCP_TOTP_SECRET) {
+    return { secret: process.env.MCP_TOTP_SECRET, created: false };
+  }
+
+  const filePath = dataPath('totp.json');
+  const stored = readJsonFile<{ secret?: string }>(filePath, {});
+  if (stored.secret) {
+    return { secret: stored.secret, created: false };
+  }
+
+  const secret = generateTotpSecret();
+  writeJsonFile(filePath, { secret, created_at: Date.now() });
+  return { secret, created: true };
+}
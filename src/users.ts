@@ -0,0 +1,57 @@
+import path from 'path';
+import { dataPath, readJsonFile } from './persist.js';
+
+// Username used for tokens and tasks when no user registry is configured
+export const OWNER_USERNAME = 'owner';
+
+export interface UserAccount {
+  username: string;
+  pin?: string;
+  pin_sha256?: string; // Hex SHA-256 of the PIN, instead of storing it in plaintext
+  totp_secret?: string; // Base32 secret for authenticator app login
+  workspace?: string; // Root directory this user's tools are confined to
+}
+
+const USERS_FILE = process.env.MCP_USERS_FILE || dataPath('users.json');
+
+const users = new Map<string, UserAccount>();
+for (const user of readJsonFile<{ users?: UserAccount[] }>(USERS_FILE, {}).users || []) {
+  if (!user.username) {
+    console.error(`Ignoring user without a username in ${USERS_FILE}`);
+    continue;
+  }
+  users.set(user.username, {
+    ...user,
+    workspace: user.workspace ? path.resolve(user.workspace) : undefined,
+  });
+}
+
+// With no registry the server has a single owner authenticated by MCP_PIN / the server TOTP secret
+export const MULTI_USER = users.size > 0;
+
+if (MULTI_USER) {
+  console.log(`Loaded ${users.size} user(s) from ${USERS_FILE}`);
+}
+
+export function findUser(username: string): UserAccount | undefined {
+  return users.get(username);
+}
+
+export function listUsers(): UserAccount[] {
+  return Array.from(users.values());
+}
+
+/**
+ * Workspace root for a user, or undefined if the user is unconfined (the single owner)
+ */
+export function getUserWorkspace(username: string): string | undefined {
+  return users.get(username)?.workspace;
+}
+
+/**
+ * Check whether a path lies inside a workspace root
+ */
+export function isWithinWorkspace(workspace: string, target: string): boolean {
+  const relative = path.relative(workspace, path.resolve(workspace, target));
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
@@ -0,0 +1,150 @@
+import path from 'path';
+import { execFile } from 'child_process';
+import { dataPath } from './persist.js';
+
+// A git worktree on its own branch, used to isolate one Claude Code task's changes
+export interface TaskWorktree {
+  repoRoot: string; // Top level of the main checkout
+  path: string; // Worktree directory
+  branch: string;
+  baseBranch: string; // Branch checked out in the main repo when the worktree was created
+  baseCommit: string;
+  state: 'active' | 'merged' | 'discarded';
+}
+
+// Run git with an argument list. No shell is involved, so branch names, paths and commit messages
+// taken from task prompts are passed as-is.
+function git(repo: string, args: string[]): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  return new Promise(resolve => {
+    execFile('git', ['-C', repo, ...args], { maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      const exitCode = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+      const message = stderr.trim() || (error && typeof error.code !== 'number' ? error.message : '');
+      resolve({ stdout: stdout.trim(), stderr: message, exitCode });
+    });
+  });
+}
+
+/**
+ * Create a worktree on a new branch from the current HEAD of the repo containing directory
+ */
+export async function createWorktree(
+  directory: string,
+  name: string
+): Promise<{ worktree: TaskWorktree; workingDirectory: string } | { error: string }> {
+  const topLevel = await git(directory, ['rev-parse', '--show-toplevel']);
+  if (topLevel.exitCode !== 0) {
+    return { error: `Not a git repository: ${directory}` };
+  }
+  const repoRoot = topLevel.stdout;
+
+  const head = await git(repoRoot, ['rev-parse', 'HEAD']);
+  if (head.exitCode !== 0) {
+    return { error: `Repository has no commits yet: ${repoRoot}` };
+  }
+  const baseBranch = (await git(repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD'])).stdout;
+
+  const branch = `claude/${name}`;
+  const worktreePath = dataPath('worktrees', name);
+  const added = await git(repoRoot, ['worktree', 'add', '-b', branch, worktreePath, 'HEAD']);
+  if (added.exitCode !== 0) {
+    return { error: `Failed to create worktree: ${added.stderr}` };
+  }
+
+  // Run in the same subdirectory of the worktree that was requested in the main checkout
+  const subdirectory = path.relative(repoRoot, path.resolve(directory));
+
+  return {
+    worktree: {
+      repoRoot,
+      path: worktreePath,
+      branch,
+      baseBranch,
+      baseCommit: head.stdout,
+      state: 'active',
+    },
+    workingDirectory: path.join(worktreePath, subdirectory),
+  };
+}
+
+/**
+ * Summarize a worktree's changes against its base commit, short enough to read aloud
+ */
+export async function summarizeWorktree(
+  worktree: TaskWorktree,
+  maxFiles: number = 10
+): Promise<{ summary: string; files: Array<{ path: string; change: string }>; commits: string[] }> {
+  // Read-only: untracked files are listed separately instead of being added to the index
+  const nameStatus = await git(worktree.path, ['diff', '--name-status', worktree.baseCommit]);
+  const shortStat = await git(worktree.path, ['diff', '--shortstat', worktree.baseCommit]);
+  const untracked = await git(worktree.path, ['ls-files', '--others', '--exclude-standard']);
+  const log = await git(worktree.path, ['log', '--format=%s', `${worktree.baseCommit}..HEAD`]);
+
+  const changeNames: Record<string, string> = { A: 'added', M: 'modified', D: 'deleted', R: 'renamed' };
+  const files = nameStatus.stdout
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      const [status, ...paths] = line.split('\t');
+      return { path: paths[paths.length - 1], change: changeNames[status[0]] || status };
+    });
+  const untrackedFiles = untracked.stdout.split('\n').filter(Boolean);
+  files.push(...untrackedFiles.map(file => ({ path: file, change: 'added' })));
+  const commits = log.stdout.split('\n').filter(Boolean);
+
+  if (files.length === 0) {
+    return { summary: 'No changes.', files, commits };
+  }
+
+  const listed = files
+    .slice(0, maxFiles)
+    .map(file => `${file.path} (${file.change})`)
+    .join(', ');
+  const more = files.length > maxFiles ? `, and ${files.length - maxFiles} more` : '';
+  const stats = [shortStat.stdout.trim()];
+  if (untrackedFiles.length > 0) {
+    stats.push(`${untrackedFiles.length} new file${untrackedFiles.length === 1 ? '' : 's'} not yet tracked`);
+  }
+  const summary = `${stats.filter(Boolean).join(', ')}: ${listed}${more}.`;
+
+  return { summary, files, commits };
+}
+
+/**
+ * Commit any pending changes in the worktree and merge its branch into the main checkout
+ */
+export async function mergeWorktree(worktree: TaskWorktree, commitMessage: string): Promise<{ error?: string }> {
+  const current = (await git(worktree.repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD'])).stdout;
+  if (current !== worktree.baseBranch) {
+    return { error: `Main checkout is on ${current}, expected ${worktree.baseBranch}. Switch back before merging.` };
+  }
+
+  const status = await git(worktree.path, ['status', '--porcelain']);
+  if (status.stdout) {
+    await git(worktree.path, ['add', '--all']);
+    const commit = await git(worktree.path, ['commit', '-m', commitMessage]);
+    if (commit.exitCode !== 0) {
+      return { error: `Failed to commit worktree changes: ${commit.stderr || commit.stdout}` };
+    }
+  }
+
+  const merge = await git(worktree.repoRoot, ['merge', '--no-ff', '-m', `Merge ${worktree.branch}`, worktree.branch]);
+  if (merge.exitCode !== 0) {
+    await git(worktree.repoRoot, ['merge', '--abort']);
+    return { error: `Merge failed and was aborted: ${merge.stderr || merge.stdout}` };
+  }
+
+  await removeWorktree(worktree);
+  return {};
+}
+
+/**
+ * Remove the worktree directory and delete its branch
+ */
+export async function removeWorktree(worktree: TaskWorktree): Promise<{ error?: string }> {
+  const removed = await git(worktree.repoRoot, ['worktree', 'remove', '--force', worktree.path]);
+  if (removed.exitCode !== 0) {
+    return { error: `Failed to remove worktree: ${removed.stderr}` };
+  }
+  await git(worktree.repoRoot, ['branch', '-D', worktree.branch]);
+  return {};
+}